@@ -1,77 +1,447 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useImperativeHandle, useRef, useMemo } from 'react';
 import { Scene } from './components/Scene';
-import { TreeState } from './types';
+import { ThemePicker } from './components/ThemePicker';
+import { EditorPanel } from './components/EditorPanel';
+import { TreeState, MorphTarget, ExportScript, SceneConfig } from './types';
+import { defaultSceneConfig } from './config/defaultScene';
+import { defaultTimeline, DEFAULT_FORMATIONS, withMessage } from './config/defaultTimeline';
+import { getShape, isMessageShape, registerMessageShape } from './shapes';
+import { resolveTimeline, stepStartTime, stepTransition } from './timeline/timeline';
+import { useTimelinePlayer } from './timeline/useTimelinePlayer';
+import { seedFromUrl } from './utils/random';
+import { qualityFromUrl } from './config/quality';
+import { kioskFromUrl } from './utils/kiosk';
+import { useKioskSchedule } from './components/useKioskSchedule';
+import { applySharedTree, encodeSharedTree, sharedTreeFromUrl, sharedTreeOf, SharedTree } from './utils/shareUrl';
+import { DEFAULT_TRANSITION } from './utils/transition';
+import { shortcutKey } from './utils/interaction';
+import { describeArrival, describeFormation, describeScene } from './utils/describeScene';
 
-const App: React.FC = () => {
-  const [treeState, setTreeState] = useState<TreeState>(TreeState.TREE_SHAPE);
-  const [isAutoMode, setIsAutoMode] = useState(true);
+// `formation` is the last formation shown, kept while scattered so we know
+// which one comes next
+interface FormationState {
+  formation: MorphTarget;
+  scattered: boolean;
+}
+
+// Scatter a formation, or assemble the next one out of the scatter
+const advanceFormation = (prev: FormationState): FormationState => {
+  if (!prev.scattered) return { ...prev, scattered: true };
+  const index = DEFAULT_FORMATIONS.indexOf(prev.formation);
+  return { formation: DEFAULT_FORMATIONS[(index + 1) % DEFAULT_FORMATIONS.length], scattered: false };
+};
+
+// Where `state` is reached from by hand: scattering keeps the last formation
+// so the next click knows what follows
+const manualStateFor = (state: MorphTarget, lastFormation: MorphTarget): FormationState =>
+  getShape(state).scattered ? { formation: lastFormation, scattered: true } : { formation: state, scattered: false };
+
+// How long the show stays paused after the last click
+const IDLE_RESUME_MS = 10000;
+
+// `?seed=` lets a client-approved layout be reopened exactly, `?quality=`
+// pins a tier on devices auto mode misjudges, and `?kiosk` sets up a
+// signage screen. A share link in the hash overrides the first two. An
+// embedded tree ignores the host page's URL.
+const initialConfig = (shared: SharedTree, embedded: boolean): SceneConfig =>
+  applySharedTree(
+    embedded
+      ? defaultSceneConfig
+      : {
+          ...defaultSceneConfig,
+          seed: seedFromUrl() ?? defaultSceneConfig.seed,
+          quality: qualityFromUrl() ?? defaultSceneConfig.quality,
+          kiosk: { ...defaultSceneConfig.kiosk, enabled: kioskFromUrl() || defaultSceneConfig.kiosk.enabled },
+        },
+    shared
+  );
+
+// Where a link opens: on its formation, or on the first one when the show
+// is off. Null leaves the show playing from the top.
+const initialManualState = (shared: SharedTree): FormationState | null => {
+  if (shared.state === undefined) {
+    return shared.autoMode === false ? { formation: DEFAULT_FORMATIONS[0], scattered: false } : null;
+  }
+  return manualStateFor(shared.state, DEFAULT_FORMATIONS[0]);
+};
+
+// Drives the tree from outside React, e.g. the <arix-tree> element (embed/)
+export interface TreeControls {
+  getState: () => MorphTarget;
+  // Morphs into `state` and pauses the show there, like a click
+  setState: (state: MorphTarget) => void;
+  // Breaks the current formation apart; no-op when already scattered
+  scatter: () => void;
+  // Reassembles the formation last shown; no-op when already formed
+  form: () => void;
+  setAutoMode: (on: boolean) => void;
+  setTheme: (theme: string) => void;
+  // Records one pass of the timeline, like the Record Loop button
+  startRecording: () => void;
+}
+
+interface AppProps {
+  // Set when the tree lives inside another page: no page-level UI or
+  // keyboard shortcuts, and the address bar is left alone. `initial` then
+  // stands in for the share link.
+  embedded?: boolean;
+  initial?: SharedTree;
+  controlsRef?: React.Ref<TreeControls>;
+  onStateChange?: (state: MorphTarget) => void;
+  onTransitionEnd?: (state: MorphTarget) => void;
+}
+
+// Stands in for Tailwind's sr-only, which host pages of an embed may lack
+const VISUALLY_HIDDEN: React.CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  padding: 0,
+  margin: -1,
+  overflow: 'hidden',
+  clip: 'rect(0, 0, 0, 0)',
+  whiteSpace: 'nowrap',
+  border: 0,
+};
+
+const App: React.FC<AppProps> = ({ embedded = false, initial, controlsRef, onStateChange, onTransitionEnd }) => {
+  // Read once: the app keeps the hash up to date from here on
+  const [shared] = useState(() => initial ?? (embedded ? {} : sharedTreeFromUrl()));
+  // Edited live by the theme menu and the editor panel; the scene updates
+  // without remounting
+  const [sceneConfig, setSceneConfig] = useState<SceneConfig>(() => initialConfig(shared, embedded));
+  const setTheme = useCallback((theme: string) => setSceneConfig((config) => ({ ...config, theme })), []);
+
+  // The message, when there is one, is spelled out after the opening tree
+  const { message } = sceneConfig;
+  const messageState = useMemo(() => (message.enabled ? registerMessageShape(message) : null), [message]);
+  const timeline = useMemo(
+    () => (messageState ? withMessage(defaultTimeline, messageState, message.hold) : defaultTimeline),
+    [messageState, message.hold]
+  );
+  // A formation left on an older message follows it to its new text; its
+  // shape may already be unregistered
+  const currentFormation = useCallback(
+    (formation: MorphTarget) =>
+      isMessageShape(formation) && formation !== messageState ? messageState ?? DEFAULT_FORMATIONS[0] : formation,
+    [messageState]
+  );
+  // Off: the tree stays wherever it was left instead of resuming the show
+  const [autoMode, setAutoMode] = useState(shared.autoMode ?? true);
+  // A link that opens on a formation, or with the show off, starts paused
+  const player = useTimelinePlayer(timeline, shared.autoMode !== false && shared.state === undefined);
+  const { play, pause, seek } = player;
+  // Signage always comes back to the show, after its own idle time
+  const { kiosk } = sceneConfig;
+  const resumesWhenIdle = autoMode || kiosk.enabled;
+  const idleResumeMs = kiosk.enabled ? kiosk.idleSeconds * 1000 : IDLE_RESUME_MS;
+  const schedule = useKioskSchedule(kiosk);
+
+  // Set while the user is driving the tree by hand; the timeline is paused
+  const [manualState, setManualState] = useState<FormationState | null>(() => initialManualState(shared));
+  // The video export drives the scene itself; App stays hands-off meanwhile
+  const [isExporting, setIsExporting] = useState(false);
   const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastFormationRef = useRef<MorphTarget>(DEFAULT_FORMATIONS[0]);
 
-  // Auto-play Loop Effect with variable timing
-  useEffect(() => {
-    // Only run the loop if we are in Auto Mode
-    if (!isAutoMode) return;
-
-    let timeoutId: ReturnType<typeof setTimeout>;
-
-    if (treeState === TreeState.TREE_SHAPE) {
-      // If currently a Tree, hold shape for 8 seconds before scattering
-      timeoutId = setTimeout(() => {
-        setTreeState(TreeState.SCATTERED);
-      }, 8000);
-    } else {
-      // If currently Scattered:
-      // 1. Transition takes ~1.5-2 seconds.
-      // 2. User wants to "rotate for 2 seconds" after scattering.
-      // Total delay = 4000ms ensures full scatter + approx 2s idle rotation.
-      timeoutId = setTimeout(() => {
-        setTreeState(TreeState.TREE_SHAPE);
-      }, 4000);
-    }
+  const treeState = manualState
+    ? manualState.scattered ? TreeState.SCATTERED : currentFormation(manualState.formation)
+    : player.step.state;
+  const isScattered = getShape(treeState).scattered;
+  // Clicks build formations from the bottom up and sparkle them apart
+  const transition = useMemo(
+    () =>
+      manualState
+        ? { ...DEFAULT_TRANSITION, stagger: isScattered ? 'random' as const : 'bottomUp' as const }
+        : stepTransition(player.step),
+    [manualState, isScattered, player.step]
+  );
 
-    return () => clearTimeout(timeoutId);
-  }, [isAutoMode, treeState]);
+  useEffect(() => {
+    if (!isScattered) lastFormationRef.current = treeState;
+  }, [treeState, isScattered]);
 
-  const toggleState = useCallback(() => {
-    // 1. Handle immediate user interaction
-    setTreeState((prev) => 
-      prev === TreeState.TREE_SHAPE ? TreeState.SCATTERED : TreeState.TREE_SHAPE
+  useEffect(() => {
+    lastFormationRef.current = currentFormation(lastFormationRef.current);
+    setManualState((prev) =>
+      prev && currentFormation(prev.formation) !== prev.formation
+        ? { ...prev, formation: currentFormation(prev.formation) }
+        : prev
     );
+  }, [currentFormation]);
 
-    // 2. Pause Auto Mode so the user isn't interrupted
-    setIsAutoMode(false);
+  // Offline export replays one pass of the timeline from the top
+  const exportScript = useMemo<ExportScript>(
+    () => ({
+      duration: player.duration,
+      stepAt: (time) => {
+        const { step } = resolveTimeline(timeline, time);
+        return { state: step.state, transition: stepTransition(step) };
+      },
+    }),
+    [timeline, player.duration]
+  );
+
+  const handleExportingChange = useCallback(
+    (exporting: boolean) => {
+      setIsExporting(exporting);
+      if (exporting) {
+        pause();
+      } else if (resumesWhenIdle && !idleTimerRef.current) {
+        play();
+      }
+    },
+    [resumesWhenIdle, play, pause]
+  );
 
-    // 3. Clear any existing idle timer
+  // Drops any pending resume; in auto mode, starts a new one so the show
+  // comes back once the tree has been left alone for a while
+  const scheduleResume = useCallback(() => {
     if (idleTimerRef.current) {
       clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = null;
     }
-
-    // 4. Start a new idle timer: If no clicks for 10 seconds, resume Auto Mode
+    if (!resumesWhenIdle) return;
     idleTimerRef.current = setTimeout(() => {
-      setIsAutoMode(true);
-    }, 10000);
+      idleTimerRef.current = null;
+      setManualState(null);
+      play();
+    }, idleResumeMs);
+  }, [resumesWhenIdle, idleResumeMs, play]);
+
+  // Kiosk attract loop: while the show runs unattended, it jumps every so
+  // often to the scatter that leads into its opening, so passers-by keep
+  // seeing the tree (and the message) assemble
+  const attractStart = useMemo(
+    () => (timeline.loop ? stepStartTime(timeline, timeline.steps.length - 1) : 0),
+    [timeline]
+  );
+  useEffect(() => {
+    if (!kiosk.enabled || manualState || isExporting) return;
+    const intervalId = setInterval(() => seek(attractStart), kiosk.attractSeconds * 1000);
+    return () => clearInterval(intervalId);
+  }, [kiosk.enabled, kiosk.attractSeconds, manualState, isExporting, attractStart, seek]);
+
+  const toggleState = useCallback(() => {
+    if (isExporting) return;
+
+    // Pause the show and take over from whatever is on screen
+    pause();
+    setManualState((prev) =>
+      advanceFormation(prev ?? { formation: lastFormationRef.current, scattered: getShape(treeState).scattered })
+    );
+    scheduleResume();
+  }, [isExporting, treeState, pause, scheduleResume]);
+
+  // Like toggleState, but straight to `state`
+  const goToState = useCallback(
+    (state: MorphTarget) => {
+      if (isExporting) return;
+      pause();
+      setManualState(manualStateFor(state, lastFormationRef.current));
+      scheduleResume();
+    },
+    [isExporting, pause, scheduleResume]
+  );
+
+  const handleAutoModeChange = useCallback(
+    (on: boolean) => {
+      if (isExporting) return;
+      setAutoMode(on);
+      if (idleTimerRef.current) {
+        clearTimeout(idleTimerRef.current);
+        idleTimerRef.current = null;
+      }
+      if (on) {
+        setManualState(null);
+        play();
+      } else {
+        // Hold whatever is on screen
+        pause();
+        setManualState((prev) => prev ?? { formation: lastFormationRef.current, scattered: isScattered });
+      }
+    },
+    [isExporting, isScattered, play, pause]
+  );
+
+  // A link that opens on a formation resumes the show like a click would
+  useEffect(() => {
+    if (shared.state !== undefined) scheduleResume();
+    // Only on load; later changes go through the handlers above
+  }, []);
+
+  useEffect(() => () => {
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
   }, []);
 
+  // The address bar always holds a link to the tree as it is now. Only what
+  // differs from the defaults is written, to keep links short.
+  const shareHash = encodeSharedTree({
+    ...sharedTreeOf(sceneConfig, defaultSceneConfig),
+    state: manualState ? treeState : undefined,
+    autoMode: autoMode ? undefined : false,
+  });
+
+  useEffect(() => {
+    if (embedded) return;
+    const { pathname, search } = window.location;
+    window.history.replaceState(null, '', `${pathname}${search}${shareHash ? `#${shareHash}` : ''}`);
+  }, [embedded, shareHash]);
+
+  // Read out by screen readers: where the ornaments arrived, and the show
+  // pausing or resuming
+  const [announcement, setAnnouncement] = useState('');
+  const handleTransitionEnd = useCallback(
+    (state: MorphTarget) => {
+      setAnnouncement(describeArrival(state));
+      onTransitionEnd?.(state);
+    },
+    [onTransitionEnd]
+  );
+  const toggleAutoMode = useCallback(() => {
+    if (isExporting) return;
+    handleAutoModeChange(!autoMode);
+    setAnnouncement(autoMode ? 'Show paused.' : 'Show resumed.');
+  }, [isExporting, autoMode, handleAutoModeChange]);
+
+  // Space or enter: next formation; P: pause or resume the show. The
+  // arrow keys (orbit) and R (record) are handled inside the scene.
+  useEffect(() => {
+    if (embedded) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const key = shortcutKey(event);
+      if (key === ' ' || key === 'Enter') {
+        event.preventDefault();
+        toggleState();
+      } else if ((key === 'p' || key === 'P') && !kiosk.enabled) {
+        toggleAutoMode();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [embedded, kiosk.enabled, toggleState, toggleAutoMode]);
+
+  // Pasting another link into this tab only changes the hash; reload so it
+  // opens like a fresh visit
+  useEffect(() => {
+    if (embedded) return;
+    const handleHashChange = () => {
+      if (window.location.hash.replace(/^#/, '') !== shareHash) window.location.reload();
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [embedded, shareHash]);
+
+  // Reported to the host page when embedded; the first formation isn't a change
+  const reportedStateRef = useRef(treeState);
+  useEffect(() => {
+    if (treeState === reportedStateRef.current) return;
+    reportedStateRef.current = treeState;
+    onStateChange?.(treeState);
+  }, [treeState, onStateChange]);
+
+  // Bumped to start a recording from outside the canvas
+  const [recordRequest, setRecordRequest] = useState(0);
+
+  useImperativeHandle(
+    controlsRef,
+    () => ({
+      getState: () => treeState,
+      setState: goToState,
+      scatter: () => {
+        if (!isScattered) goToState(TreeState.SCATTERED);
+      },
+      form: () => {
+        if (isScattered) goToState(lastFormationRef.current);
+      },
+      setAutoMode: handleAutoModeChange,
+      setTheme,
+      startRecording: () => setRecordRequest((count) => count + 1),
+    }),
+    [treeState, isScattered, goToState, handleAutoModeChange, setTheme]
+  );
+
   return (
-    <div className="relative w-full h-screen bg-black">
-      <Scene treeState={treeState} toggleState={toggleState} />
+    <main
+      className={embedded ? undefined : 'relative w-full h-screen bg-black'}
+      style={embedded ? { position: 'relative', width: '100%', height: '100%', background: '#000' } : undefined}
+      aria-label="Christmas tree"
+      aria-describedby="scene-description"
+    >
+      <p id="scene-description" style={VISUALLY_HIDDEN}>{describeScene(sceneConfig, treeState)}</p>
+      <div role="status" aria-live="polite" style={VISUALLY_HIDDEN}>{announcement}</div>
+
+      <Scene
+        treeState={treeState}
+        transition={transition}
+        onTransitionEnd={handleTransitionEnd}
+        config={sceneConfig}
+        cameraMove={manualState ? null : player.step.camera ?? null}
+        cameraShot={manualState ? null : player.step.shot ?? null}
+        effectTrigger={player.trigger}
+        recordDuration={player.duration}
+        recordRequest={recordRequest}
+        showControls={!embedded && !kiosk.enabled}
+        sleeping={schedule.lightsOff}
+        exportScript={exportScript}
+        onExportingChange={handleExportingChange}
+      />
+
+      {/* The host page of an embed brings its own controls, and signage has none */}
+      {!embedded && !kiosk.enabled && (
+        <>
+          <ThemePicker theme={sceneConfig.theme} onChange={setTheme} />
+          <EditorPanel
+            config={sceneConfig}
+            onChange={setSceneConfig}
+            autoMode={autoMode}
+            onAutoModeChange={handleAutoModeChange}
+          />
+        </>
+      )}
       
-      {/* Subtle UI Indicator */}
-      <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2 pointer-events-none opacity-50">
-        <div className="w-12 h-12 border border-white/20 rounded-full flex items-center justify-center backdrop-blur-sm transition-all duration-500">
-          <div 
-            className={`w-3 h-3 rounded-full transition-all duration-700 
-            ${treeState === TreeState.TREE_SHAPE 
-              ? 'bg-yellow-400 shadow-[0_0_10px_#ffd700]' 
-              : 'bg-emerald-500 shadow-[0_0_10px_#00ff88]'
-            }
-            ${isAutoMode ? 'animate-pulse' : ''} 
-            `} 
+      {/* Formation control: ornaments take clicks in the scene, so the tree
+          is toggled from here */}
+      {!embedded && (
+        <button
+          onClick={toggleState}
+          title="Next formation (space)"
+          aria-label={`Next formation. Now showing ${describeFormation(treeState)}.`}
+          className="absolute bottom-8 left-1/2 transform -translate-x-1/2 opacity-50 hover:opacity-100 transition-opacity duration-300"
+        >
+          <div className="w-12 h-12 border border-white/20 rounded-full flex items-center justify-center backdrop-blur-sm transition-all duration-500">
+            <div 
+              className={`w-3 h-3 rounded-full transition-all duration-700 
+              ${!isScattered 
+                ? 'bg-yellow-400 shadow-[0_0_10px_#ffd700]' 
+                : 'bg-emerald-500 shadow-[0_0_10px_#00ff88]'
+              }
+              ${player.isPlaying ? 'motion-safe:animate-pulse' : ''} 
+              `} 
+            />
+          </div>
+        </button>
+      )}
+
+      {/* Kiosk programme: dims the screen by the clock, and hides the cursor */}
+      {kiosk.enabled && (
+        <>
+          <style>{'* { cursor: none !important; }'}</style>
+          <div
+            aria-hidden="true"
+            style={{
+              position: 'absolute',
+              inset: 0,
+              background: '#000',
+              pointerEvents: 'none',
+              opacity: 1 - schedule.brightness,
+              transition: `opacity ${kiosk.fadeSeconds}s linear`,
+            }}
           />
-        </div>
-      </div>
-    </div>
+        </>
+      )}
+    </main>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,48 @@
+import * as THREE from 'three';
+import { registerShot } from './shotRegistry';
+
+const v = (x: number, y: number, z: number) => new THREE.Vector3(x, y, z);
+
+// Slow drift out to take in the whole formation
+registerShot({
+  id: 'wide',
+  label: 'Wide',
+  duration: 6,
+  frames: () => ({
+    path: [v(4, 5, 34), v(-6, 4, 33)],
+    lookAt: [v(0, 0, 0)],
+  }),
+});
+
+// Push in on the top star, then pull back to a comfortable orbit
+registerShot({
+  id: 'starCloseUp',
+  label: 'Close-up on star',
+  duration: 7,
+  frames: ({ star }) => ({
+    path: [star.clone().add(v(5, 0, 9)), star.clone().add(v(-2, 0.5, 6)), v(-4, 4, 26)],
+    lookAt: [star, star, v(0, 0, 0)],
+  }),
+});
+
+// Sweep around the base looking up, so the formation towers over the viewer
+registerShot({
+  id: 'lowHero',
+  label: 'Low-angle hero',
+  duration: 7,
+  frames: () => ({
+    path: [v(-14, -8, 18), v(0, -9, 21), v(14, -7, 18), v(8, 0, 26)],
+    lookAt: [v(0, 3, 0), v(0, 4, 0), v(0, 2, 0), v(0, 0, 0)],
+  }),
+});
+
+// Dive through the scattered cloud and come out the other side
+registerShot({
+  id: 'flyThrough',
+  label: 'Fly-through',
+  duration: 6,
+  frames: () => ({
+    path: [v(-22, 6, 24), v(-8, 2, 10), v(6, -1, 8), v(20, 3, 22), v(10, 3, 32)],
+    lookAt: [v(0, 0, -10), v(6, 0, -6), v(0, 0, 0)],
+  }),
+});
@@ -0,0 +1,3 @@
+import './builtinShots';
+
+export * from './shotRegistry';
@@ -0,0 +1,41 @@
+import * as THREE from 'three';
+
+// What a shot can aim at besides fixed points
+export interface ShotContext {
+  // Where the top star sits in the formation being shown
+  star: THREE.Vector3;
+}
+
+export interface ShotPath {
+  // Camera positions, joined by a Catmull-Rom spline. The camera's current
+  // position is prepended, so a shot always starts from wherever it is.
+  path: THREE.Vector3[];
+  // Look-at points along the way (a single point holds focus on it)
+  lookAt: THREE.Vector3[];
+}
+
+export interface CameraShot {
+  id: string;
+  label: string;
+  // Seconds to travel the whole path
+  duration: number;
+  frames: (context: ShotContext) => ShotPath;
+}
+
+const registry = new Map<string, CameraShot>();
+
+export const registerShot = (shot: CameraShot) => {
+  registry.set(shot.id, shot);
+};
+
+export const getShot = (id: string): CameraShot => {
+  const shot = registry.get(id);
+  if (!shot) {
+    throw new Error(`Unknown camera shot "${id}". Registered: ${listShots().map((s) => s.id).join(', ')}`);
+  }
+  return shot;
+};
+
+export const hasShot = (id: string) => registry.has(id);
+
+export const listShots = (): CameraShot[] => Array.from(registry.values());
@@ -0,0 +1,120 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { AudioAnalyser, connectMicrophone, connectAudioFile } from '../utils/audioAnalyser';
+import { useAudioLevels } from './AudioLevelsContext';
+
+// Samples before everything else in the frame, so the scene reacts to this
+// frame's music rather than the last one's
+const SAMPLE_PRIORITY = -2;
+
+// Lives inside the Canvas: refreshes the scene's audio levels from the
+// connected source every frame, and zeroes them once it is gone
+export const AudioSampler: React.FC<{ analyser: AudioAnalyser | null }> = ({ analyser }) => {
+  const levels = useAudioLevels();
+
+  useEffect(() => {
+    if (!analyser) Object.assign(levels, { active: false, bass: 0, mids: 0, highs: 0, beat: 0 });
+  }, [analyser, levels]);
+
+  useFrame((_, delta) => {
+    analyser?.sample(levels, delta);
+  }, SAMPLE_PRIORITY);
+
+  return null;
+};
+
+interface AudioButtonProps {
+  // The connected source, or null once stopped; hand it to an AudioSampler
+  onAnalyserChange: (analyser: AudioAnalyser | null) => void;
+}
+
+// Picks the music source. Plain DOM, for the overlay outside the scene.
+export const AudioButton: React.FC<AudioButtonProps> = ({ onAnalyserChange }) => {
+  const analyserRef = useRef<AudioAnalyser | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [source, setSource] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const stop = useCallback(() => {
+    analyserRef.current?.dispose();
+    analyserRef.current = null;
+    onAnalyserChange(null);
+    setSource(null);
+  }, [onAnalyserChange]);
+
+  const start = useCallback(
+    async (label: string, connect: () => Promise<AudioAnalyser>) => {
+      stop();
+      setIsOpen(false);
+      setError(null);
+      try {
+        analyserRef.current = await connect();
+        onAnalyserChange(analyserRef.current);
+        setSource(label);
+      } catch (e) {
+        console.error(e);
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    },
+    [stop, onAnalyserChange]
+  );
+
+  useEffect(() => stop, [stop]);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: '20px',
+        left: '20px',
+        zIndex: 1000,
+        pointerEvents: 'auto'
+      }}
+      className="flex flex-col items-start gap-2 font-mono text-xs tracking-widest uppercase text-white/70"
+    >
+      <button
+        onClick={() => (source ? stop() : setIsOpen((open) => !open))}
+        className={`
+          flex items-center gap-2 px-4 py-2 rounded-full border backdrop-blur-md transition-all duration-300 uppercase
+          ${source
+            ? 'bg-emerald-500/20 border-emerald-500 text-emerald-400'
+            : 'bg-white/10 border-white/20 hover:bg-white/20 hover:text-white hover:border-white/50'
+          }
+        `}
+      >
+        {source ? `♪ ${source} · Stop` : 'Audio Reactive'}
+      </button>
+
+      {isOpen && !source && (
+        <div className="flex flex-col gap-2 p-3 rounded-xl border border-white/20 bg-black/60 backdrop-blur-md">
+          <button
+            onClick={() => start('Microphone', connectMicrophone)}
+            className="px-3 py-1 rounded-full border border-white/30 hover:bg-white/20 hover:text-white"
+          >
+            Microphone
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1 rounded-full border border-white/30 hover:bg-white/20 hover:text-white"
+          >
+            Music File…
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) start(file.name, () => connectAudioFile(file));
+            }}
+          />
+        </div>
+      )}
+
+      {error && <div className="max-w-xs text-red-400 normal-case tracking-normal">{error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,13 @@
+import React, { createContext, useContext } from 'react';
+import { AudioLevels, createAudioLevels } from '../utils/audioAnalyser';
+
+// Music levels for audio-reactive mode. One mutable object, refreshed every
+// frame by AudioSampler, so readers poll it in useFrame instead of re-rendering.
+const AudioLevelsContext = createContext<AudioLevels>(createAudioLevels());
+
+export const AudioLevelsProvider: React.FC<{ levels: AudioLevels; children: React.ReactNode }> = ({
+  levels,
+  children,
+}) => <AudioLevelsContext.Provider value={levels}>{children}</AudioLevelsContext.Provider>;
+
+export const useAudioLevels = () => useContext(AudioLevelsContext);
@@ -0,0 +1,52 @@
+import React, { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { useFrame, useThree } from '@react-three/fiber';
+import { burnInDrift } from '../utils/kiosk';
+
+// Keeps the logo's drift apart from the picture's
+const LOGO_PHASE = 0.37;
+
+interface BurnInCameraProps {
+  // Furthest the picture moves, in CSS pixels
+  pixels: number;
+  periodMinutes: number;
+}
+
+/**
+ * Slides the whole picture around by a few pixels over the hours, through
+ * the camera's view offset, so static parts of the frame don't burn into a
+ * signage screen. The camera itself stays put, so orbiting and camera shots
+ * are unaffected.
+ */
+export const BurnInCamera: React.FC<BurnInCameraProps> = ({ pixels, periodMinutes }) => {
+  const camera = useThree((s) => s.camera) as THREE.PerspectiveCamera;
+
+  useFrame(({ size }) => {
+    const [x, y] = burnInDrift(periodMinutes, Date.now());
+    camera.setViewOffset(size.width, size.height, x * pixels, y * pixels, size.width, size.height);
+  });
+
+  useEffect(() => () => camera.clearViewOffset(), [camera]);
+
+  return null;
+};
+
+interface BurnInGroupProps {
+  // Furthest the children move, in world units
+  distance: number;
+  periodMinutes: number;
+  children: React.ReactNode;
+}
+
+// Drifts its children (the logo) along their own slow path
+export const BurnInGroup: React.FC<BurnInGroupProps> = ({ distance, periodMinutes, children }) => {
+  const groupRef = useRef<THREE.Group>(null);
+
+  useFrame(() => {
+    if (!groupRef.current) return;
+    const [x, y] = burnInDrift(periodMinutes, Date.now(), LOGO_PHASE);
+    groupRef.current.position.set(x * distance, y * distance, 0);
+  });
+
+  return <group ref={groupRef}>{children}</group>;
+};
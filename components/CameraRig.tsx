@@ -0,0 +1,142 @@
+import React, { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
+import { CameraMove, MorphTarget } from '../types';
+import { starPosition } from '../layout';
+import { getShot } from '../camera';
+import { useSeed } from './SeedContext';
+
+interface CameraRigProps {
+  // Formation on screen; a change plays its shot, if one is given
+  state: MorphTarget;
+  shot: string | null;
+  // Seconds to hand the camera back to orbit control after a shot
+  blendBack: number;
+  // Plain glide, used when no shot is given. Without either, any running
+  // animation finishes on its own.
+  move: CameraMove | null;
+  // Seconds the move takes
+  duration: number;
+}
+
+interface CameraRun {
+  position: THREE.Curve<THREE.Vector3>;
+  target: THREE.Curve<THREE.Vector3>;
+  duration: number;
+}
+
+interface CameraAnimation {
+  // Builds the run from the camera pose on its first frame
+  plan: (position: THREE.Vector3, target: THREE.Vector3) => CameraRun;
+  run: (CameraRun & { startTime: number }) | null;
+  // Blend back into the orbit controls' limits once done
+  blendBack: boolean;
+}
+
+const ORIGIN = new THREE.Vector3();
+
+const curveThrough = (points: THREE.Vector3[]): THREE.Curve<THREE.Vector3> =>
+  points.length < 3
+    ? new THREE.LineCurve3(points[0], points[points.length - 1])
+    : new THREE.CatmullRomCurve3(points, false, 'centripetal');
+
+// Nearest pose the orbit controls accept, so taking over causes no jump
+const orbitPose = (position: THREE.Vector3, controls: OrbitControlsImpl | null) => {
+  if (!controls) return position.clone();
+  const spherical = new THREE.Spherical().setFromVector3(position);
+  spherical.radius = THREE.MathUtils.clamp(spherical.radius, controls.minDistance, controls.maxDistance);
+  spherical.phi = THREE.MathUtils.clamp(spherical.phi, controls.minPolarAngle, controls.maxPolarAngle);
+  return new THREE.Vector3().setFromSpherical(spherical);
+};
+
+/**
+ * Camera director. Plays named shots (spline paths with look-at targets, see
+ * camera/) when the formation changes, glides for plain CameraMoves, and
+ * blends back to the orbit controls afterwards. Dragging the view cancels
+ * whatever is playing.
+ */
+export const CameraRig: React.FC<CameraRigProps> = ({ state, shot, blendBack, move, duration }) => {
+  const seed = useSeed();
+  const camera = useThree((s) => s.camera);
+  // drei's OrbitControls, made default in the scene; anything else is left alone
+  const controls = useThree((s) => (s.controls instanceof OrbitControlsImpl ? s.controls : null));
+  const animationRef = useRef<CameraAnimation | null>(null);
+
+  useEffect(() => {
+    if (shot) {
+      const definition = getShot(shot);
+      const star = starPosition(state, seed);
+      const frames = definition.frames({ star });
+      animationRef.current = {
+        plan: (position, target) => ({
+          position: curveThrough([position.clone(), ...frames.path]),
+          target: curveThrough([target.clone(), ...frames.lookAt]),
+          duration: definition.duration,
+        }),
+        run: null,
+        blendBack: true,
+      };
+    } else if (move) {
+      animationRef.current = {
+        plan: (position, target) => ({
+          position: curveThrough([position.clone(), new THREE.Vector3(...move.position)]),
+          target: curveThrough([target.clone(), move.target ? new THREE.Vector3(...move.target) : ORIGIN]),
+          duration,
+        }),
+        run: null,
+        blendBack: false,
+      };
+    }
+    // Only a new formation or move starts a new animation
+    // (duration belongs to the move that comes with it)
+  }, [state, shot, move, seed]);
+
+  // The viewer grabbing the camera always wins
+  useEffect(() => {
+    if (!controls) return;
+    const cancel = () => {
+      animationRef.current = null;
+    };
+    controls.addEventListener('start', cancel);
+    return () => controls.removeEventListener('start', cancel);
+  }, [controls]);
+
+  const lookAt = useRef(new THREE.Vector3());
+
+  useFrame(({ clock }) => {
+    const animation = animationRef.current;
+    if (!animation) return;
+    const now = clock.elapsedTime;
+
+    // Planned on the first frame, and again if the clock was rewound (video
+    // export starts at 0 from a reset camera)
+    if (!animation.run || now < animation.run.startTime) {
+      animation.run = { ...animation.plan(camera.position, controls?.target ?? ORIGIN), startTime: now };
+    }
+    const { run } = animation;
+    const t = Math.min(1, (now - run.startTime) / Math.max(run.duration, 0.001));
+    const eased = THREE.MathUtils.smootherstep(t, 0, 1);
+
+    run.position.getPointAt(eased, camera.position);
+    run.target.getPointAt(eased, lookAt.current);
+    controls?.target.copy(lookAt.current);
+    camera.lookAt(lookAt.current);
+
+    if (t < 1) return;
+    animationRef.current =
+      animation.blendBack && blendBack > 0
+        ? {
+            plan: (position, target) => ({
+              position: curveThrough([position.clone(), orbitPose(position, controls)]),
+              target: curveThrough([target.clone(), ORIGIN]),
+              duration: blendBack,
+            }),
+            run: null,
+            blendBack: false,
+          }
+        : null;
+  });
+
+  return null;
+};
@@ -0,0 +1,48 @@
+import { useEffect } from 'react';
+import { useThree } from '@react-three/fiber';
+
+// Longest wait for the browser to hand the context back before trying anyway
+const RESTORE_TIMEOUT_MS = 3000;
+
+interface ContextLossRecoveryProps {
+  // Called once the GPU is (probably) back; remount the canvas from here
+  onRecover: () => void;
+}
+
+/**
+ * Watches for the WebGL context being lost (driver reset, GPU memory
+ * pressure, a long sleep) and asks for a fresh canvas once it is back.
+ * three.js can restore a context in place, but the scene's shaders, render
+ * targets and canvas textures don't all come back with it, so starting over
+ * is the reliable way out.
+ */
+export const ContextLossRecovery: React.FC<ContextLossRecoveryProps> = ({ onRecover }) => {
+  const gl = useThree((s) => s.gl);
+
+  useEffect(() => {
+    const canvas = gl.domElement;
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+    const recover = () => {
+      if (timeoutId === null) return;
+      clearTimeout(timeoutId);
+      timeoutId = null;
+      onRecover();
+    };
+    const handleLost = (event: Event) => {
+      // Without this the browser never offers the context back
+      event.preventDefault();
+      timeoutId ??= setTimeout(recover, RESTORE_TIMEOUT_MS);
+    };
+
+    canvas.addEventListener('webglcontextlost', handleLost);
+    canvas.addEventListener('webglcontextrestored', recover);
+    return () => {
+      canvas.removeEventListener('webglcontextlost', handleLost);
+      canvas.removeEventListener('webglcontextrestored', recover);
+      if (timeoutId !== null) clearTimeout(timeoutId);
+    };
+  }, [gl, onRecover]);
+
+  return null;
+};
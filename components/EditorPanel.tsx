@@ -0,0 +1,356 @@
+import React, { useRef, useState } from 'react';
+import * as THREE from 'three';
+import { SceneConfig, ParticleGroupConfig, LightConfig, LogoLine } from '../types';
+import { validateSceneConfig, SceneConfigError } from '../config/validateSceneConfig';
+import { applyTheme, bakeTheme, getTheme } from '../config/themes';
+import { downloadBlob } from '../utils/videoExport';
+
+interface EditorPanelProps {
+  config: SceneConfig;
+  onChange: (config: SceneConfig) => void;
+  // Whether the show resumes by itself; carried in share links
+  autoMode: boolean;
+  onAutoModeChange: (autoMode: boolean) => void;
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+// Slider with the exact value typed in next to it. Typed values may go past
+// the slider's max but never under its min, which would fail validation.
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, min, max, step, onChange }) => (
+  <label className="grid grid-cols-[6rem_1fr_4rem] items-center gap-2">
+    <span className="truncate">{label}</span>
+    <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} />
+    <input
+      type="number"
+      min={min}
+      step={step}
+      value={value}
+      onChange={(e) => {
+        if (e.target.value !== '') onChange(Math.max(min, Number(e.target.value)));
+      }}
+      className="w-full bg-transparent border border-white/20 rounded px-1"
+    />
+  </label>
+);
+
+const ColorField: React.FC<{ label: string; value: string; onChange: (value: string) => void }> = ({
+  label,
+  value,
+  onChange,
+}) => (
+  <label className="grid grid-cols-[6rem_1fr] items-center gap-2">
+    <span className="truncate">{label}</span>
+    <span className="flex items-center gap-2">
+      {/* Colour inputs only take #rrggbb */}
+      <input
+        type="color"
+        value={`#${new THREE.Color(value).getHexString()}`}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-8 h-5 bg-transparent"
+      />
+      <span className="text-white/50">{value}</span>
+    </span>
+  </label>
+);
+
+const ToggleField: React.FC<{ label: string; value: boolean; onChange: (value: boolean) => void }> = ({
+  label,
+  value,
+  onChange,
+}) => (
+  <label className="grid grid-cols-[6rem_1fr] items-center gap-2">
+    <span className="truncate">{label}</span>
+    <input type="checkbox" checked={value} onChange={(e) => onChange(e.target.checked)} className="justify-self-start" />
+  </label>
+);
+
+const TextField: React.FC<{ label: string; value: string; multiline?: boolean; onChange: (value: string) => void }> = ({
+  label,
+  value,
+  multiline = false,
+  onChange,
+}) => (
+  <label className="grid grid-cols-[6rem_1fr] items-center gap-2">
+    <span className="truncate">{label}</span>
+    {multiline ? (
+      <textarea
+        rows={2}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full bg-transparent border border-white/20 rounded px-1 resize-y"
+      />
+    ) : (
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full bg-transparent border border-white/20 rounded px-1"
+      />
+    )}
+  </label>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <details className="border-b border-white/10 py-2">
+    <summary className="cursor-pointer text-white/90">{title}</summary>
+    <div className="flex flex-col gap-2 pt-2">{children}</div>
+  </details>
+);
+
+/**
+ * Live controls for the scene config. Every change is handed straight to
+ * `onChange`, so the tree updates as the sliders move. Editing a colour that
+ * the theme sets writes the theme's colours into the config first (the theme
+ * is dropped), so nothing else changes. Looks are handed off as JSON files.
+ */
+export const EditorPanel: React.FC<EditorPanelProps> = ({ config, onChange, autoMode, onAutoModeChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [copied, setCopied] = useState(false);
+  // A blank message while it is switched on, kept here until it has text
+  const [messageDraft, setMessageDraft] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // What is on screen: colours come from the theme while one is set
+  const shown = config.theme ? applyTheme(config, getTheme(config.theme)) : config;
+
+  const edit = (change: (config: SceneConfig) => SceneConfig) => onChange(change(config));
+  const editColours = (change: (config: SceneConfig) => SceneConfig) => onChange(change(bakeTheme(config)));
+
+  const patchGroup = (index: number, patch: Partial<ParticleGroupConfig>) => (c: SceneConfig) => ({
+    ...c,
+    groups: c.groups.map((group, i) => (i === index ? { ...group, ...patch } : group)),
+  });
+  const patchLight = (index: number, patch: Partial<LightConfig>) => (c: SceneConfig) => ({
+    ...c,
+    lights: c.lights.map((light, i) => (i === index ? { ...light, ...patch } : light)),
+  });
+  const patchLogoLine = (index: number, patch: Partial<LogoLine>) => (c: SceneConfig) => ({
+    ...c,
+    logo: { ...c.logo, lines: c.logo.lines.map((line, i) => (i === index ? { ...line, ...patch } : line)) },
+  });
+  const patch = <K extends keyof SceneConfig>(key: K, value: Partial<SceneConfig[K]>) => (c: SceneConfig) => ({
+    ...c,
+    [key]: { ...(c[key] as object), ...value },
+  });
+  const patchEffect = <K extends keyof SceneConfig['postProcessing']>(
+    key: K,
+    value: Partial<SceneConfig['postProcessing'][K]>
+  ) => (c: SceneConfig) => ({
+    ...c,
+    postProcessing: { ...c.postProcessing, [key]: { ...c.postProcessing[key], ...value } },
+  });
+
+  const exportJson = () => {
+    const blob = new Blob([JSON.stringify(config, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `arix-christmas-tree-${Date.now()}.json`);
+  };
+
+  const importJson = async (file: File) => {
+    try {
+      onChange(validateSceneConfig(JSON.parse(await file.text())));
+      setMessageDraft(null);
+      setIssues([]);
+    } catch (e) {
+      if (e instanceof SceneConfigError) setIssues(e.issues);
+      else setIssues([e instanceof Error ? e.message : String(e)]);
+    }
+  };
+
+  // The address bar is kept as a link to the current tree
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      setIssues([`Could not copy the link: ${e instanceof Error ? e.message : String(e)}`]);
+    }
+  };
+
+  const { postProcessing } = shown;
+
+  const editMessageText = (text: string) => {
+    const blank = text.trim() === '' && shown.message.enabled;
+    setMessageDraft(blank ? text : null);
+    if (!blank) edit(patch('message', { text }));
+  };
+  const toggleMessage = (enabled: boolean) => {
+    if (enabled && (messageDraft ?? shown.message.text).trim() === '') {
+      setIssues(['Write the message before switching it on']);
+      return;
+    }
+    setIssues([]);
+    edit(patch('message', { enabled }));
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: '20px',
+        right: '20px',
+        zIndex: 1000,
+      }}
+      className="flex flex-col-reverse items-end gap-2 font-mono text-xs text-white/70"
+    >
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        className="px-4 py-2 rounded-full border backdrop-blur-md transition-all duration-300 tracking-widest uppercase bg-white/10 border-white/20 hover:bg-white/20 hover:text-white hover:border-white/50"
+      >
+        {isOpen ? 'Close Editor' : 'Editor'}
+      </button>
+
+      {isOpen && (
+        <div className="w-96 max-h-[70vh] overflow-y-auto p-3 rounded-xl border border-white/20 bg-black/70 backdrop-blur-md">
+          <Section title={`Particle groups (${shown.groups.length})`}>
+            {shown.groups.map((group, i) => (
+              <Section key={i} title={group.name ?? `Group ${i + 1}`}>
+                <NumberField label="Count" value={group.count} min={0} max={3000} step={1}
+                  onChange={(count) => edit(patchGroup(i, { count: Math.max(0, Math.round(count)) }))} />
+                <ColorField label="Colour" value={group.color}
+                  onChange={(color) => editColours(patchGroup(i, { color }))} />
+                <NumberField label="Metalness" value={group.metalness} min={0} max={1} step={0.01}
+                  onChange={(metalness) => edit(patchGroup(i, { metalness }))} />
+                <NumberField label="Roughness" value={group.roughness} min={0} max={1} step={0.01}
+                  onChange={(roughness) => edit(patchGroup(i, { roughness }))} />
+                <NumberField label="Scale" value={group.scaleMultiplier} min={0} max={3} step={0.05}
+                  onChange={(scaleMultiplier) => edit(patchGroup(i, { scaleMultiplier }))} />
+                <NumberField label="Emissive" value={group.emissiveIntensity ?? 0.2} min={0} max={3} step={0.05}
+                  onChange={(emissiveIntensity) => editColours(patchGroup(i, { emissiveIntensity }))} />
+                <NumberField label="Env intensity" value={group.envMapIntensity ?? 2} min={0} max={5} step={0.1}
+                  onChange={(envMapIntensity) => edit(patchGroup(i, { envMapIntensity }))} />
+              </Section>
+            ))}
+          </Section>
+
+          <Section title={`Lights (${shown.lights.length})`}>
+            {shown.lights.map((light, i) => (
+              <Section key={i} title={`${i + 1}. ${light.type}`}>
+                <ColorField label="Colour" value={light.color}
+                  onChange={(color) => editColours(patchLight(i, { color }))} />
+                <NumberField label="Intensity" value={light.intensity} min={0} max={50} step={0.1}
+                  onChange={(intensity) => editColours(patchLight(i, { intensity }))} />
+              </Section>
+            ))}
+          </Section>
+
+          <Section title="Top star">
+            <ToggleField label="Enabled" value={shown.topStar.enabled}
+              onChange={(enabled) => edit(patch('topStar', { enabled }))} />
+            <ColorField label="Colour" value={shown.topStar.color}
+              onChange={(color) => editColours(patch('topStar', { color }))} />
+            <ColorField label="Emissive" value={shown.topStar.emissive}
+              onChange={(emissive) => editColours(patch('topStar', { emissive }))} />
+            <ColorField label="Light" value={shown.topStar.lightColor}
+              onChange={(lightColor) => editColours(patch('topStar', { lightColor }))} />
+            <NumberField label="Light power" value={shown.topStar.lightIntensity} min={0} max={60} step={0.5}
+              onChange={(lightIntensity) => edit(patch('topStar', { lightIntensity }))} />
+          </Section>
+
+          <Section title="Logo">
+            <ToggleField label="Enabled" value={shown.logo.enabled}
+              onChange={(enabled) => edit(patch('logo', { enabled }))} />
+            <NumberField label="Line gap" value={shown.logo.lineGap} min={0} max={2} step={0.05}
+              onChange={(lineGap) => edit(patch('logo', { lineGap }))} />
+            {shown.logo.lines.map((line, i) => (
+              <Section key={i} title={line.text ?? line.image ?? `Line ${i + 1}`}>
+                {line.text !== undefined && (
+                  <TextField label="Text" value={line.text}
+                    onChange={(text) => edit(patchLogoLine(i, { text }))} />
+                )}
+                <NumberField label="Size" value={line.size} min={0.1} max={5} step={0.05}
+                  onChange={(size) => edit(patchLogoLine(i, { size }))} />
+                <ColorField label="Colour" value={line.color ?? (line.material === 'glow' ? '#FFFFFF' : '#dcdcdc')}
+                  onChange={(color) => edit(patchLogoLine(i, { color }))} />
+              </Section>
+            ))}
+          </Section>
+
+          <Section title="Message">
+            <ToggleField label="Enabled" value={shown.message.enabled} onChange={toggleMessage} />
+            <TextField label="Text" value={messageDraft ?? shown.message.text} multiline onChange={editMessageText} />
+            <NumberField label="Hold" value={shown.message.hold} min={0} max={30} step={0.5}
+              onChange={(hold) => edit(patch('message', { hold }))} />
+          </Section>
+
+          <Section title="Effects">
+            <ColorField label="Background" value={shown.background}
+              onChange={(background) => editColours((c) => ({ ...c, background }))} />
+            <ToggleField label="Bloom" value={postProcessing.bloom.enabled}
+              onChange={(enabled) => edit(patchEffect('bloom', { enabled }))} />
+            <NumberField label="Bloom" value={postProcessing.bloom.intensity} min={0} max={5} step={0.05}
+              onChange={(intensity) => editColours(patchEffect('bloom', { intensity }))} />
+            <NumberField label="Threshold" value={postProcessing.bloom.luminanceThreshold} min={0} max={1} step={0.01}
+              onChange={(luminanceThreshold) => editColours(patchEffect('bloom', { luminanceThreshold }))} />
+            <NumberField label="Bloom radius" value={postProcessing.bloom.radius} min={0} max={1} step={0.01}
+              onChange={(radius) => edit(patchEffect('bloom', { radius }))} />
+            <ToggleField label="Film grain" value={postProcessing.noise.enabled}
+              onChange={(enabled) => edit(patchEffect('noise', { enabled }))} />
+            <ToggleField label="Vignette" value={postProcessing.vignette.enabled}
+              onChange={(enabled) => edit(patchEffect('vignette', { enabled }))} />
+            <ToggleField label="Snow" value={shown.snow.enabled}
+              onChange={(enabled) => edit(patch('snow', { enabled }))} />
+            <NumberField label="Snowflakes" value={shown.snow.count} min={0} max={6000} step={10}
+              onChange={(count) => edit(patch('snow', { count: Math.max(0, Math.round(count)) }))} />
+            <ToggleField label="Starfield" value={shown.starfield.enabled}
+              onChange={(enabled) => edit(patch('starfield', { enabled }))} />
+            <ToggleField label="Floor shadow" value={shown.contactShadows.enabled}
+              onChange={(enabled) => edit(patch('contactShadows', { enabled }))} />
+          </Section>
+
+          <Section title="Sharing">
+            <ToggleField label="Auto mode" value={autoMode} onChange={onAutoModeChange} />
+            <p className="text-white/50">
+              The theme and any colours edited over it, seed, logo text, message, formation, auto mode and quality
+              are kept in the page link.
+            </p>
+          </Section>
+
+          <div className="flex flex-wrap gap-2 pt-3 tracking-widest uppercase">
+            <button onClick={copyLink} className="px-3 py-1 rounded-full border border-white/30 hover:bg-white/20 hover:text-white">
+              {copied ? 'Copied' : 'Copy link'}
+            </button>
+            <button onClick={exportJson} className="px-3 py-1 rounded-full border border-white/30 hover:bg-white/20 hover:text-white">
+              Export JSON
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1 rounded-full border border-white/30 hover:bg-white/20 hover:text-white"
+            >
+              Import JSON…
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) importJson(file);
+              }}
+            />
+          </div>
+
+          {issues.length > 0 && (
+            <ul className="mt-2 space-y-1 text-red-400">
+              {issues.map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useState, useRef, useCallback } from 'react';
+import * as THREE from 'three';
+import { useThree } from '@react-three/fiber';
+import type { EffectComposer } from 'postprocessing';
+import { ExportScript, ScriptedStep, Vec3Tuple } from '../types';
+import {
+  exportVideo,
+  downloadBlob,
+  isVideoExportSupported,
+  EXPORT_RESOLUTIONS,
+  VideoFormat,
+} from '../utils/videoExport';
+import { createOffscreenRenderer, drawPixels } from '../utils/snapshot';
+
+interface ExportButtonProps {
+  script: ExportScript;
+  cameraPosition: Vec3Tuple;
+  onExportingChange: (exporting: boolean) => void;
+  // Overrides the scene formation while exporting (null hands control back)
+  onScriptedStep: (step: ScriptedStep | null) => void;
+  // Remounts the scene so the export starts from a known state
+  onReset: () => void;
+  // The scene's post-processing, null when every effect is off
+  composerRef: React.RefObject<EffectComposer | null>;
+}
+
+const FPS = 30;
+
+// Gives React a moment to commit a state change before the next frame is drawn
+const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+export const ExportButton: React.FC<ExportButtonProps> = ({
+  script,
+  cameraPosition,
+  onExportingChange,
+  onScriptedStep,
+  onReset,
+  composerRef,
+}) => {
+  const get = useThree((state) => state.get);
+  const [isOpen, setIsOpen] = useState(false);
+  const [resolution, setResolution] = useState('1080p');
+  const [format, setFormat] = useState<VideoFormat>('mp4');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const startExport = useCallback(async () => {
+    const { width, height } = EXPORT_RESOLUTIONS[resolution];
+    const three = get();
+    const previous = {
+      frameloop: three.frameloop,
+      elapsedTime: three.clock.elapsedTime,
+    };
+    const abort = new AbortController();
+    abortRef.current = abort;
+    setError(null);
+    setProgress(0);
+
+    // Frames are drawn off screen at the export size and copied here for
+    // the encoder, so the live canvas keeps its size
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    let offscreen: ReturnType<typeof createOffscreenRenderer> | null = null;
+
+    try {
+      // 1. Take over: stop the live loop and start from the top
+      onExportingChange(true);
+      let current = script.stepAt(0);
+      onScriptedStep(current);
+      onReset();
+      await settle();
+      three.setFrameloop('never');
+      three.camera.position.set(...cameraPosition);
+      three.camera.lookAt(0, 0, 0);
+      three.clock.elapsedTime = 0;
+      await settle();
+      // After the reset, which remounts the composer
+      offscreen = createOffscreenRenderer(three.gl, composerRef.current, width, height);
+      const renderer = offscreen;
+
+      // 2. Drive the clock by hand, one fixed timestep per frame
+      const blob = await exportVideo({
+        canvas,
+        width,
+        height,
+        fps: FPS,
+        duration: script.duration,
+        format,
+        signal: abort.signal,
+        onProgress: (done, total) => setProgress(done / total),
+        renderFrame: async (time) => {
+          const next = script.stepAt(time);
+          if (next.state !== current.state) {
+            current = next;
+            onScriptedStep(next);
+            await settle();
+          }
+          get().advance(time);
+          const { scene, camera } = get();
+          drawPixels(canvas, renderer.render(scene, camera as THREE.PerspectiveCamera));
+        },
+      });
+      downloadBlob(blob, `arix-christmas-tree-${width}x${height}-${Date.now()}.${format}`);
+    } catch (e) {
+      if (!abort.signal.aborted) {
+        console.error(e);
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    } finally {
+      // 3. Hand everything back to the live view
+      offscreen?.dispose();
+      const { frameloop, elapsedTime } = previous;
+      three.clock.elapsedTime = elapsedTime;
+      three.clock.oldTime = performance.now();
+      three.setFrameloop(frameloop);
+      onScriptedStep(null);
+      onExportingChange(false);
+      abortRef.current = null;
+      setProgress(null);
+    }
+  }, [get, resolution, format, script, cameraPosition, onExportingChange, onScriptedStep, onReset, composerRef]);
+
+  if (!isVideoExportSupported()) return null;
+
+  const isExporting = progress !== null;
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: '64px',
+        right: '20px',
+        zIndex: 1000,
+        pointerEvents: 'auto'
+      }}
+      className="flex flex-col items-end gap-2 font-mono text-xs tracking-widest uppercase text-white/70"
+    >
+      <button
+        onClick={() => (isExporting ? abortRef.current?.abort() : setIsOpen((open) => !open))}
+        className={`
+          flex items-center gap-2 px-4 py-2 rounded-full border backdrop-blur-md transition-all duration-300 uppercase
+          ${isExporting
+            ? 'bg-amber-500/20 border-amber-500 text-amber-400'
+            : 'bg-white/10 border-white/20 hover:bg-white/20 hover:text-white hover:border-white/50'
+          }
+        `}
+      >
+        {isExporting ? `Exporting ${Math.round(progress * 100)}% · Cancel` : 'Export Video'}
+      </button>
+
+      {isOpen && !isExporting && (
+        <div className="flex flex-col gap-2 p-3 rounded-xl border border-white/20 bg-black/60 backdrop-blur-md">
+          <select
+            value={resolution}
+            onChange={(e) => setResolution(e.target.value)}
+            className="bg-transparent border border-white/20 rounded px-2 py-1"
+          >
+            {Object.entries(EXPORT_RESOLUTIONS).map(([key, preset]) => (
+              <option key={key} value={key} className="bg-black">{preset.label}</option>
+            ))}
+          </select>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as VideoFormat)}
+            className="bg-transparent border border-white/20 rounded px-2 py-1"
+          >
+            <option value="mp4" className="bg-black">MP4</option>
+            <option value="webm" className="bg-black">WebM</option>
+          </select>
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              startExport();
+            }}
+            className="px-3 py-1 rounded-full border border-white/30 hover:bg-white/20 hover:text-white"
+          >
+            Render {script.duration}s @ {FPS}fps
+          </button>
+        </div>
+      )}
+
+      {error && <div className="max-w-xs text-red-400 normal-case tracking-normal">{error}</div>}
+    </div>
+  );
+};
@@ -1,12 +1,43 @@
-
 import React, { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
+import { MorphTarget, SnowConfig, TreeState } from '../types';
+import { randomFor } from '../utils/random';
+import { turbulenceAt, windAt } from '../utils/snow';
+import { useSeed } from './SeedContext';
+import { useMotionScale } from './useReducedMotion';
+
+interface FloatingSnowProps {
+  config: SnowConfig;
+  // Leaving the tree formation blows nearby flakes away
+  state: MorphTarget;
+}
+
+// Flakes live in this box and wrap around its sides
+const BOX_MIN = new THREE.Vector3(-50, -50, -40);
+const BOX_SIZE = new THREE.Vector3(100, 100, 60);
 
-export const FloatingSnow: React.FC = () => {
-  const count = 2000; // Increased count for finer density
+// Flakes within this distance of the trunk are caught by the burst, which
+// then dies down at this rate
+const BURST_RADIUS = 20;
+const BURST_DECAY = 1.5;
+// Longest step simulated at once, so a stalled tab doesn't fling the snow
+const MAX_STEP = 0.1;
+
+const wrap = (value: number, min: number, size: number) => ((((value - min) % size) + size) % size) + min;
+
+/**
+ * Falling snow. Each flake drifts with the wind (steady, gusts and swirls,
+ * see utils/snow.ts) on top of its own fall and flutter. The simulation steps
+ * with the clock and starts over if the clock is rewound, so exports are
+ * repeatable.
+ */
+export const FloatingSnow: React.FC<FloatingSnowProps> = ({ config, state }) => {
   const meshRef = useRef<THREE.InstancedMesh>(null);
-  const tempObject = new THREE.Object3D();
+  const seed = useSeed();
+  // Reduced motion slows the whole drift and narrows the flutter
+  const motionScale = useMotionScale();
+  const { count } = config;
 
   // Generate a procedural snowflake texture
   const snowflakeTexture = useMemo(() => {
@@ -60,50 +91,125 @@ export const FloatingSnow: React.FC = () => {
     return texture;
   }, []);
 
-  // Initial random positions
-  const particles = useMemo(() => {
-    return new Array(count).fill(0).map(() => ({
-      x: (Math.random() - 0.5) * 100, // Wider spread
-      y: (Math.random() - 0.5) * 100,
-      z: (Math.random() - 0.5) * 60 - 10,
-      speed: 0.02 + Math.random() * 0.05, // Slower fall speed
-      wobbleSpeed: 0.5 + Math.random(),
-      wobbleRadius: 0.5 + Math.random() * 1.5,
-      randomOffset: Math.random() * 100,
-      scale: Math.random() * 0.4 + 0.1 // Varied small sizes
-    }));
-  }, []);
+  // Starting positions and the per-flake fall and flutter
+  const flakes = useMemo(() => {
+    const random = randomFor(seed, 'snow');
+    const start = new Float32Array(count * 3);
+    const fall = new Float32Array(count);
+    const wobbleSpeed = new Float32Array(count);
+    const wobbleRadius = new Float32Array(count);
+    const randomOffset = new Float32Array(count);
+    const scale = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      start[i * 3] = (random() - 0.5) * 100; // Wider spread
+      start[i * 3 + 1] = (random() - 0.5) * 100;
+      start[i * 3 + 2] = (random() - 0.5) * 60 - 10;
+      fall[i] = (0.02 + random() * 0.05) * 5; // Slow fall, in units per second
+      wobbleSpeed[i] = 0.5 + random();
+      wobbleRadius[i] = 0.5 + random() * 1.5;
+      randomOffset[i] = random() * 100;
+      scale[i] = random() * 0.4 + 0.1; // Varied small sizes
+    }
+    return { start, fall, wobbleSpeed, wobbleRadius, randomOffset, scale };
+  }, [count, seed]);
+
+  // Where each flake has drifted to, and what is left of its burst push
+  const sim = useMemo(
+    () => ({
+      position: flakes.start.slice(),
+      burst: new Float32Array(count * 3),
+      lastTime: 0,
+      state,
+    }),
+    // Only new flakes restart the simulation
+    [flakes]
+  );
 
-  useFrame((state) => {
+  // Reused every frame
+  const scratch = useMemo(
+    () => ({
+      object: new THREE.Object3D(),
+      wind: new THREE.Vector3(),
+      swirl: new THREE.Vector3(),
+      flake: new THREE.Vector3(),
+    }),
+    []
+  );
+
+  useFrame((stateThree) => {
     if (!meshRef.current) return;
-    const t = state.clock.elapsedTime;
+    const t = stateThree.clock.elapsedTime;
+    const { position, burst } = sim;
 
-    particles.forEach((particle, i) => {
-      // Downward drift
-      let y = particle.y - t * particle.speed * 5; // Multiplier for consistent speed
-      
-      // Loop vertically
-      const range = 100;
-      const loopY = ((y + range / 2) % range) - range / 2;
+    // The clock was rewound (video export starts at 0): start the snow over
+    if (t < sim.lastTime) {
+      position.set(flakes.start);
+      burst.fill(0);
+    }
+    const step = Math.min(MAX_STEP, Math.max(0, t - sim.lastTime)) * motionScale;
+    sim.lastTime = t;
+
+    // Leaving the tree blows the snow around it outwards
+    if (state !== sim.state) {
+      if (sim.state === TreeState.TREE_SHAPE) {
+        const speed = config.accumulation.burstSpeed;
+        for (let i = 0; i < count; i++) {
+          const x = position[i * 3];
+          const y = position[i * 3 + 1];
+          const z = position[i * 3 + 2];
+          const distance = Math.hypot(x, z);
+          if (distance >= BURST_RADIUS || Math.abs(y) > BURST_RADIUS || distance === 0) continue;
+          const push = speed * (1 - distance / BURST_RADIUS);
+          burst[i * 3] += (x / distance) * push;
+          burst[i * 3 + 1] += push * 0.4;
+          burst[i * 3 + 2] += (z / distance) * push;
+        }
+      }
+      sim.state = state;
+    }
+
+    const wind = windAt(config.wind, t, scratch.wind);
+    const decay = Math.exp(-step * BURST_DECAY);
+    const { object, swirl, flake } = scratch;
+
+    for (let i = 0; i < count; i++) {
+      flake.fromArray(position, i * 3);
+      turbulenceAt(config.wind.turbulence, flake, t + flakes.randomOffset[i], swirl);
+      flake.x += (wind.x + swirl.x + burst[i * 3]) * step;
+      flake.y += (wind.y + swirl.y + burst[i * 3 + 1] - flakes.fall[i] * config.fallSpeed) * step;
+      flake.z += (wind.z + swirl.z + burst[i * 3 + 2]) * step;
+      flake.set(
+        wrap(flake.x, BOX_MIN.x, BOX_SIZE.x),
+        wrap(flake.y, BOX_MIN.y, BOX_SIZE.y),
+        wrap(flake.z, BOX_MIN.z, BOX_SIZE.z)
+      );
+      flake.toArray(position, i * 3);
+      burst[i * 3] *= decay;
+      burst[i * 3 + 1] *= decay;
+      burst[i * 3 + 2] *= decay;
 
       // Gentle wobble (Fluttering effect)
       // Snow doesn't fall straight, it sways
-      const x = particle.x + Math.sin(t * particle.wobbleSpeed + particle.randomOffset) * particle.wobbleRadius;
-      const z = particle.z + Math.cos(t * particle.wobbleSpeed * 0.8 + particle.randomOffset) * particle.wobbleRadius;
+      const offset = flakes.randomOffset[i];
+      const wobbleSpeed = flakes.wobbleSpeed[i];
+      const wobbleRadius = flakes.wobbleRadius[i] * motionScale;
+      object.position.set(
+        flake.x + Math.sin(t * wobbleSpeed + offset) * wobbleRadius,
+        flake.y,
+        flake.z + Math.cos(t * wobbleSpeed * 0.8 + offset) * wobbleRadius
+      );
+      object.scale.setScalar(flakes.scale[i]);
 
-      tempObject.position.set(x, loopY, z);
-      tempObject.scale.setScalar(particle.scale);
-      
       // Rotate slowly to catch light/show shape, but not spin crazily
-      tempObject.rotation.set(
-        Math.sin(t * 0.5 + particle.randomOffset) * 0.5,
-        Math.cos(t * 0.3 + particle.randomOffset) * 0.5,
-        t * 0.1 + particle.randomOffset
+      object.rotation.set(
+        Math.sin(t * 0.5 + offset) * 0.5,
+        Math.cos(t * 0.3 + offset) * 0.5,
+        t * 0.1 + offset
       );
-      
-      tempObject.updateMatrix();
-      meshRef.current!.setMatrixAt(i, tempObject.matrix);
-    });
+
+      object.updateMatrix();
+      meshRef.current.setMatrixAt(i, object.matrix);
+    }
     meshRef.current.instanceMatrix.needsUpdate = true;
   });
 
@@ -0,0 +1,51 @@
+import React, { useEffect } from 'react';
+import { Html } from '@react-three/drei';
+import { Vec3Tuple } from '../types';
+
+interface GreetingCardProps {
+  text: string;
+  // Where the clicked ornament was
+  position: Vec3Tuple;
+  onClose: () => void;
+}
+
+// Closes by itself after this long
+const GREETING_SECONDS = 6;
+
+// Inline rather than Tailwind: the page's stylesheet doesn't reach into the
+// <arix-tree> element's shadow root
+const PULSE = `@keyframes arix-greeting-pulse { 50% { opacity: 0.5; } }`;
+
+const CARD_STYLE: React.CSSProperties = {
+  margin: 0,
+  padding: '0.75rem 1.25rem',
+  borderRadius: '1rem',
+  border: '1px solid rgba(252, 211, 77, 0.6)',
+  background: 'rgba(0, 0, 0, 0.7)',
+  backdropFilter: 'blur(12px)',
+  color: '#fef3c7',
+  fontFamily: 'ui-serif, Georgia, Cambria, "Times New Roman", Times, serif',
+  fontSize: '1rem',
+  lineHeight: 1.5,
+  whiteSpace: 'nowrap',
+  boxShadow: '0 0 20px rgba(255, 215, 0, 0.35)',
+  cursor: 'pointer',
+  animation: 'arix-greeting-pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite',
+};
+
+// A small card that opens next to a clicked gift
+export const GreetingCard: React.FC<GreetingCardProps> = ({ text, position, onClose }) => {
+  useEffect(() => {
+    const timeoutId = setTimeout(onClose, GREETING_SECONDS * 1000);
+    return () => clearTimeout(timeoutId);
+  }, [text, position, onClose]);
+
+  return (
+    <Html position={position} center zIndexRange={[900, 0]}>
+      <style>{PULSE}</style>
+      <button onClick={onClose} style={CARD_STYLE}>
+        {text}
+      </button>
+    </Html>
+  );
+};
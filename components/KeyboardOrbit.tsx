@@ -0,0 +1,54 @@
+import { useEffect } from 'react';
+import * as THREE from 'three';
+import { useThree } from '@react-three/fiber';
+import { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
+import { shortcutKey } from '../utils/interaction';
+
+// Angle turned per key press
+const STEP = THREE.MathUtils.degToRad(10);
+
+// [around, over] turns for each arrow key
+const TURNS: Record<string, [number, number]> = {
+  ArrowLeft: [-STEP, 0],
+  ArrowRight: [STEP, 0],
+  ArrowUp: [0, -STEP],
+  ArrowDown: [0, STEP],
+};
+
+/**
+ * Arrow keys orbit the camera: left and right around the tree, up and down
+ * over it, within the orbit controls' limits. A press counts as the viewer
+ * taking the camera, so it cancels any running camera shot.
+ */
+export const KeyboardOrbit: React.FC = () => {
+  const camera = useThree((s) => s.camera);
+  const controls = useThree((s) => s.controls);
+
+  useEffect(() => {
+    // Only drei's OrbitControls (made default in the scene) can be turned
+    if (!(controls instanceof OrbitControlsImpl)) return;
+    const spherical = new THREE.Spherical();
+    const offset = new THREE.Vector3();
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const turn = TURNS[shortcutKey(event) ?? ''];
+      if (!turn) return;
+      // Arrows would otherwise scroll the page
+      event.preventDefault();
+
+      spherical.setFromVector3(offset.subVectors(camera.position, controls.target));
+      spherical.theta += turn[0];
+      spherical.phi = THREE.MathUtils.clamp(spherical.phi + turn[1], controls.minPolarAngle, controls.maxPolarAngle);
+      controls.dispatchEvent({ type: 'start', target: controls });
+      camera.position.copy(controls.target).add(offset.setFromSpherical(spherical));
+      camera.lookAt(controls.target);
+      controls.update();
+      controls.dispatchEvent({ type: 'end', target: controls });
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [camera, controls]);
+
+  return null;
+};
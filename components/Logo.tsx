@@ -1,13 +1,25 @@
-import React, { useMemo, useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import * as THREE from 'three';
-import { useFrame } from '@react-three/fiber';
-import { TreeState } from '../types';
+import { useFrame, useLoader, useThree, ThreeEvent } from '@react-three/fiber';
+import { TreeState, MorphTarget, LogoConfig, TransitionConfig } from '../types';
+import { getShape } from '../shapes';
+import { layoutLogo, logoBob, logoPiecePosition, logoScatter, LogoPiece } from '../layout';
+import { DEFAULT_TRANSITION, staggerDelay, transitionProgress } from '../utils/transition';
+import { useSeed } from './SeedContext';
+import { setHoverCursor } from '../utils/interaction';
+
+// A clicked piece flips around once over this many seconds
+const FLIP_SECONDS = 1;
+// Hovered pieces grow by this factor
+const HOVER_SCALE = 1.08;
+
+const formedFor = (id: MorphTarget) => (getShape(id).scattered ? 0 : 1);
 
 // Helper to generate a transparent texture for text
 // We render White text on Transparent background.
 // This allows us to use it as an alphaMap/map and tint it with material color.
 const useTextTexture = (text: string, font: string, width: number, height: number) => {
-  return useMemo(() => {
+  const texture = useMemo(() => {
     const canvas = document.createElement('canvas');
     canvas.width = width;
     canvas.height = height;
@@ -33,59 +45,82 @@ const useTextTexture = (text: string, font: string, width: number, height: numbe
     tex.needsUpdate = true;
     return tex;
   }, [text, font, width, height]);
+
+  // The editor redraws the text on every keystroke; free the old one
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  return texture;
 };
 
 interface LogoElementProps {
-  state: TreeState;
-  text: string;
-  font: string;
-  texWidth: number;
-  texHeight: number;
-  scale: [number, number, number];
-  targetOffset: [number, number, number]; // Offset from center [0, -1, 10]
-  materialType: 'glow' | 'velvet';
+  state: MorphTarget;
+  transition: TransitionConfig;
+  piece: LogoPiece;
+  texture: THREE.Texture;
 }
 
-const LogoElement: React.FC<LogoElementProps> = ({ 
-  state, text, font, texWidth, texHeight, scale, targetOffset, materialType 
-}) => {
+const LogoElement: React.FC<LogoElementProps> = ({ state, transition, piece, texture }) => {
   const meshRef = useRef<THREE.Mesh>(null);
-  const texture = useTextTexture(text, font, texWidth, texHeight);
+  const hoveredRef = useRef(false);
+  const flipStartRef = useRef<number | null>(null);
+  const clock = useThree((s) => s.clock);
+  const seed = useSeed();
+  const [offsetX, offsetY, offsetZ] = piece.offset;
   
-  // Base position for the Logo Group in Tree State
-  const treeBasePos = new THREE.Vector3(0, -1, 11); // Slightly pushed forward
-  const finalTreePos = new THREE.Vector3().copy(treeBasePos).add(new THREE.Vector3(...targetOffset));
-
   // Random scatter position unique to this element
-  const scatterConfig = useMemo(() => {
+  const scatterConfig = useMemo(() => logoScatter(seed, piece.key), [seed, piece.key]);
+
+  // Scattered formations send this piece to its own random spot; every other
+  // formation assembles the logo around the shape's logo anchor.
+  const morph = useMemo(() => {
+    const cache = new Map<MorphTarget, THREE.Vector3>();
+    const positionFor = (id: MorphTarget) => {
+      let pos = cache.get(id);
+      if (!pos) {
+        pos = getShape(id).scattered ? scatterConfig.position : logoPiecePosition([offsetX, offsetY, offsetZ], id);
+        cache.set(id, pos);
+      }
+      return pos;
+    };
     return {
-      pos: new THREE.Vector3(
-        (Math.random() - 0.5) * 45,
-        (Math.random() - 0.5) * 35,
-        (Math.random() - 0.5) * 20
-      ),
-      rotSpeed: new THREE.Vector3(
-        Math.random() * 0.5,
-        Math.random() * 0.5,
-        Math.random() * 0.5
-      ),
-      randomPhase: Math.random() * 10
+      positionFor,
+      from: scatterConfig.position.clone(),
+      fromFormed: 0,
+      target: TreeState.SCATTERED as MorphTarget,
+      transition: DEFAULT_TRANSITION,
+      // Clock time the current transition started at, and when this piece joins in
+      startedAt: 0,
+      delay: 0,
     };
-  }, []);
+  }, [scatterConfig, offsetX, offsetY, offsetZ]);
 
-  useFrame((stateThree, delta) => {
+  useFrame((stateThree) => {
     if (!meshRef.current) return;
+    const now = stateThree.clock.elapsedTime;
+    // The clock was rewound (video export starts at 0): restart from here
+    if (now < morph.startedAt) morph.startedAt = now;
 
-    const targetFactor = state === TreeState.TREE_SHAPE ? 1 : 0;
-    const currentFactor = meshRef.current.userData.factor ?? 0;
-    
-    // Smooth lerp for transition
-    const speed = 2.0;
-    const newFactor = THREE.MathUtils.lerp(currentFactor, targetFactor, delta * speed);
-    meshRef.current.userData.factor = newFactor;
+    // New formation requested: start from wherever this piece is right now
+    if (state !== morph.target) {
+      const progress = transitionProgress(morph.transition, now - morph.startedAt, morph.delay);
+      morph.from.lerp(morph.positionFor(morph.target), progress);
+      morph.fromFormed = THREE.MathUtils.lerp(morph.fromFormed, formedFor(morph.target), progress);
+      const next = morph.positionFor(state);
+      morph.delay = staggerDelay(
+        transition.stagger,
+        getShape(state).scattered ? morph.from : next,
+        scatterConfig.sparkle
+      );
+      morph.target = state;
+      morph.transition = transition;
+      morph.startedAt = now;
+    }
+
+    const factor = transitionProgress(morph.transition, now - morph.startedAt, morph.delay);
+    const newFactor = THREE.MathUtils.lerp(morph.fromFormed, formedFor(morph.target), THREE.MathUtils.clamp(factor, 0, 1));
 
     // 1. Position Interpolation
-    meshRef.current.position.lerpVectors(scatterConfig.pos, finalTreePos, newFactor);
+    meshRef.current.position.lerpVectors(morph.from, morph.positionFor(morph.target), factor);
 
     // 2. Rotation Handling
     if (newFactor > 0.95) {
@@ -93,7 +128,7 @@ const LogoElement: React.FC<LogoElementProps> = ({
       meshRef.current.rotation.set(0, 0, 0);
     } else {
       // Tumble when scattered
-      const time = stateThree.clock.elapsedTime + scatterConfig.randomPhase;
+      const time = stateThree.clock.elapsedTime + scatterConfig.phase;
       const tumbleX = time * scatterConfig.rotSpeed.x;
       const tumbleY = time * scatterConfig.rotSpeed.y;
       const tumbleZ = time * scatterConfig.rotSpeed.z * 0.5;
@@ -107,37 +142,61 @@ const LogoElement: React.FC<LogoElementProps> = ({
       );
     }
 
-    // 3. Floating Effect when formed
+    // 3. Click flip and hover grow
+    if (flipStartRef.current !== null) {
+      const t = (now - flipStartRef.current) / FLIP_SECONDS;
+      if (t >= 1 || t < 0) flipStartRef.current = null;
+      else meshRef.current.rotation.y += THREE.MathUtils.smootherstep(t, 0, 1) * Math.PI * 2;
+    }
+    const hoverScale = hoveredRef.current ? HOVER_SCALE : 1;
+    meshRef.current.scale.set(piece.width * hoverScale, piece.height * hoverScale, 1);
+
+    // 4. Floating Effect when formed
     if (newFactor > 0.8) {
-      const time = stateThree.clock.elapsedTime + scatterConfig.randomPhase;
       // Gentle bobbing
-      meshRef.current.position.y += Math.sin(time * 1.5) * 0.002;
+      meshRef.current.position.y += logoBob(stateThree.clock.elapsedTime + scatterConfig.phase);
     }
   });
 
+  const setHovered = (hovered: boolean) => (e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    hoveredRef.current = hovered;
+    setHoverCursor(hovered);
+  };
+
   return (
-    <mesh ref={meshRef} scale={scale}>
+    <mesh
+      ref={meshRef}
+      scale={[piece.width, piece.height, 1]}
+      onClick={(e) => {
+        e.stopPropagation();
+        flipStartRef.current = clock.elapsedTime;
+      }}
+      onPointerOver={setHovered(true)}
+      onPointerOut={setHovered(false)}
+    >
       <planeGeometry args={[1, 1]} />
-      {materialType === 'glow' ? (
-        // Glowing White Material (For Chinese Text)
+      {piece.material === 'glow' ? (
+        // Glowing Material: the texture's own colours glow, tinted by `color`
         <meshStandardMaterial 
           map={texture} 
+          emissiveMap={texture}
           transparent 
           alphaTest={0.01}
-          color="#FFFFFF"
-          emissive="#FFFFFF"
+          color={piece.color ?? '#FFFFFF'}
+          emissive={piece.color ?? '#FFFFFF'}
           emissiveIntensity={3} 
           toneMapped={false}
           side={THREE.DoubleSide}
         />
       ) : (
-        // Silver Velvet Material (For English Text)
+        // Velvet Material
         // Uses alphaMap so the texture defines opacity, but color defines the surface
         <meshStandardMaterial 
           alphaMap={texture}
           transparent
-          // Silver/Light Grey Color
-          color="#dcdcdc"
+          // Silver/Light Grey Color by default
+          color={piece.color ?? '#dcdcdc'}
           // Velvet properties: High roughness (matte), low/med metalness (sheen)
           roughness={1.0} 
           metalness={0.4}
@@ -150,68 +209,76 @@ const LogoElement: React.FC<LogoElementProps> = ({
   );
 };
 
-export const Logo: React.FC<{ state: TreeState }> = ({ state }) => {
+// Texture pixels per world unit for rendered text, capped per texture
+const TEXT_TEXELS_PER_UNIT = 256;
+const MAX_TEXTURE_SIZE = 4096;
+
+const LogoTextElement: React.FC<Omit<LogoElementProps, 'texture'>> = ({ piece, ...rest }) => {
+  const texelsPerUnit = Math.min(TEXT_TEXELS_PER_UNIT, MAX_TEXTURE_SIZE / Math.max(piece.width, piece.height));
+  const font = `${piece.fontWeight} ${Math.round(piece.fontSize * texelsPerUnit)}px ${piece.fontFamily}`;
+  const texture = useTextTexture(
+    piece.content,
+    font,
+    Math.ceil(piece.width * texelsPerUnit),
+    Math.ceil(piece.height * texelsPerUnit)
+  );
+  return <LogoElement piece={piece} texture={texture} {...rest} />;
+};
+
+// Shared scratch context for measuring text
+let measureContext: CanvasRenderingContext2D | null = null;
+const measureTextWidth = (text: string, fontFamily: string, fontWeight: string) => {
+  measureContext ??= document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * 0.6;
+  measureContext.font = `${fontWeight} 100px ${fontFamily}`;
+  return measureContext.measureText(text).width / 100;
+};
+
+interface LogoProps {
+  state: MorphTarget;
+  transition: TransitionConfig;
+  config: LogoConfig;
+}
+
+export const Logo: React.FC<LogoProps> = ({ state, transition, config }) => {
+  const imageUrls = useMemo(
+    () => config.lines.flatMap((line) => (line.image !== undefined ? [line.image] : [])),
+    [config.lines]
+  );
+  // Suspends until every image or SVG is loaded, so the layout knows their aspect ratios
+  const imageTextures = useLoader(THREE.TextureLoader, imageUrls);
+
+  const { pieces, texturesByUrl } = useMemo(() => {
+    const texturesByUrl = new Map<string, THREE.Texture>();
+    imageUrls.forEach((url, i) => {
+      imageTextures[i].colorSpace = THREE.SRGBColorSpace;
+      texturesByUrl.set(url, imageTextures[i]);
+    });
+    const pieces = layoutLogo(config, {
+      textWidth: measureTextWidth,
+      imageAspect: (url) => {
+        const image = texturesByUrl.get(url)?.image as { width: number; height: number } | undefined;
+        return image && image.height > 0 ? image.width / image.height : 1;
+      },
+    });
+    return { pieces, texturesByUrl };
+  }, [config, imageUrls, imageTextures]);
+
   return (
     <>
-      {/* 1. Chinese Characters - Separate Elements - Glowing White */}
-      <LogoElement 
-        state={state}
-        text="珀"
-        font="bold 300px sans-serif"
-        texWidth={512} texHeight={512}
-        scale={[1.8, 1.8, 1]}
-        targetOffset={[-2.4, 0.8, 0]} 
-        materialType="glow"
-      />
-      <LogoElement 
-        state={state}
-        text="森"
-        font="bold 300px sans-serif"
-        texWidth={512} texHeight={512}
-        scale={[1.8, 1.8, 1]}
-        targetOffset={[-0.8, 0.8, 0]}
-        materialType="glow"
-      />
-      <LogoElement 
-        state={state}
-        text="咖"
-        font="bold 300px sans-serif"
-        texWidth={512} texHeight={512}
-        scale={[1.8, 1.8, 1]}
-        targetOffset={[0.8, 0.8, 0]}
-        materialType="glow"
-      />
-      <LogoElement 
-        state={state}
-        text="啡"
-        font="bold 300px sans-serif"
-        texWidth={512} texHeight={512}
-        scale={[1.8, 1.8, 1]}
-        targetOffset={[2.4, 0.8, 0]}
-        materialType="glow"
-      />
-
-      {/* 2. English Title - Now Glowing White */}
-      <LogoElement 
-        state={state}
-        text="Passion Coffee Shop"
-        font="bold 80px sans-serif"
-        texWidth={1024} texHeight={256}
-        scale={[7, 1.75, 1]}
-        targetOffset={[0, -0.6, 0]}
-        materialType="glow"
-      />
-
-      {/* 3. Subtitle - Now Glowing White */}
-      <LogoElement 
-        state={state}
-        text="EST2021 YUNFU"
-        font="60px sans-serif"
-        texWidth={512} texHeight={128}
-        scale={[3.5, 0.875, 1]}
-        targetOffset={[0, -1.5, 0]}
-        materialType="glow"
-      />
+      {pieces.map((piece) =>
+        piece.kind === 'text' ? (
+          <LogoTextElement key={piece.key} state={state} transition={transition} piece={piece} />
+        ) : (
+          <LogoElement
+            key={piece.key}
+            state={state}
+            transition={transition}
+            piece={piece}
+            texture={texturesByUrl.get(piece.content)!}
+          />
+        )
+      )}
     </>
   );
-};
\ No newline at end of file
+};
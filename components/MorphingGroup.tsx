@@ -1,234 +1,245 @@
-import React, { useMemo, useRef } from 'react';
+import React, { use, useCallback, useEffect, useMemo, useRef } from 'react';
 import * as THREE from 'three';
-import { useFrame } from '@react-three/fiber';
-import { TreeState, PositionData, ParticleGroupConfig } from '../types';
+import { useFrame, ThreeEvent } from '@react-three/fiber';
+import { MorphTarget, ParticleGroupConfig, TransitionConfig, PointerFieldConfig } from '../types';
+import { getShape } from '../shapes';
+import { getGeometry, loadModel, disposeParts, isOwnMaterial, DEFAULT_ACCENT_COLOR } from '../geometries';
+import { createMorphShader, attachMorphAttributes, morphInstancePosition, CLICK_SECONDS } from '../utils/morphShader';
+import { CHIME_NOTES, playChime, setHoverCursor } from '../utils/interaction';
+import { cachePointerFieldRest, createPointerFieldState, stepPointerField } from '../utils/pointerField';
+import { useAudioLevels } from './AudioLevelsContext';
+import { useInstanceMorph } from './useInstanceMorph';
+import { useFadedColor, useFadedNumber } from './useThemeFade';
 
 interface MorphingGroupProps {
   config: ParticleGroupConfig;
-  state: TreeState;
+  state: MorphTarget;
+  // How the next change of `state` plays out
+  transition: TransitionConfig;
+  // Names this group's random streams, must be unique within the scene
+  seedKey: string;
+  // Opens a greeting card at a clicked ornament
+  onGreeting?: (text: string, position: THREE.Vector3) => void;
+  // Pushes ornaments near the pointer ray aside (see usePointerRay)
+  pointerField?: PointerFieldConfig;
+  pointerRay?: React.RefObject<THREE.Ray | null>;
+  // Segment count multiplier for curved geometries (see config/quality.ts)
+  detail?: number;
 }
 
-const tempObject = new THREE.Object3D();
-const tempVec3 = new THREE.Vector3();
+/**
+ * Instanced ornaments that morph between formations entirely on the GPU.
+ * Start/target positions, spin seeds and scales live in instanced attributes;
+ * each frame only a handful of uniforms change (see utils/morphShader.ts), so
+ * tens of thousands of instances cost about the same CPU time as a few.
+ */
+export const MorphingGroup: React.FC<MorphingGroupProps> = ({
+  config,
+  state,
+  transition,
+  seedKey,
+  onGreeting,
+  pointerField,
+  pointerRay,
+  detail = 1,
+}) => {
+  const audio = useAudioLevels();
+
+  const definition = getGeometry(config.geometryType);
+  // Suspends until a model geometry has loaded
+  const model = definition.model ? use(loadModel(definition.model)) : undefined;
+
+  const { attributes, uniforms, morph } = useInstanceMorph({
+    count: config.count,
+    seedKey,
+    state,
+    transition,
+    minScale: 0.5,
+    maxScale: 2,
+    scale: config.scaleMultiplier,
+    spinSpeed: definition.spinSpeed ?? 0.2,
+  });
+  const morphShader = useMemo(() => createMorphShader(uniforms), [uniforms]);
+
+  // Shadows are rendered with a separate depth material, which needs the same
+  // vertex displacement or they would all pile up at the origin
+  const depthMaterial = useMemo(
+    () => Object.assign(new THREE.MeshDepthMaterial({ depthPacking: THREE.RGBADepthPacking }), morphShader),
+    [morphShader]
+  );
+
+  // One instanced mesh per part, all driven by the same attributes. Parts
+  // with a material of their own get the morph hooks patched in.
+  const parts = useMemo(() => {
+    const created = definition.parts({ model, detail });
+    created.forEach(({ material }) => {
+      if (isOwnMaterial(material)) Object.assign(material, morphShader);
+    });
+    return created;
+  }, [definition, model, detail, morphShader]);
+  // Swapped in place when the count changes, so the geometry isn't rebuilt.
+  // dispose() just frees the old buffers on the GPU; the rest re-uploads.
+  useMemo(
+    () =>
+      parts.forEach(({ geometry }) => {
+        geometry.dispose();
+        attachMorphAttributes(geometry, attributes);
+      }),
+    [parts, attributes]
+  );
 
-export const MorphingGroup: React.FC<MorphingGroupProps> = ({ config, state }) => {
+  // Colours blend over when the theme changes; they are copied onto the
+  // materials every frame, except where a part sets its own
+  const color = useFadedColor(config.color);
+  const accentColor = useFadedColor(config.accentColor ?? DEFAULT_ACCENT_COLOR);
+  const emissiveIntensity = useFadedNumber(config.emissiveIntensity ?? 0.2);
+  const materialRefs = useRef<(THREE.MeshStandardMaterial | null)[]>([]);
+
+  // Spring offsets are written straight into the offset attribute
+  const field = useMemo(() => createPointerFieldState(attributes.offset.array as Float32Array), [attributes]);
+
+  // Picking. Instances are placed in the vertex shader, so the stock
+  // InstancedMesh raycast (which reads the identity instance matrices) can't
+  // find them; test a bounding sphere around each instance instead.
   const meshRef = useRef<THREE.InstancedMesh>(null);
-  // Refs for Gift Box decorations
-  const ribbon1Ref = useRef<THREE.InstancedMesh>(null);
-  const ribbon2Ref = useRef<THREE.InstancedMesh>(null);
-  const bowRef = useRef<THREE.InstancedMesh>(null);
-
-  const isGiftBox = config.geometryType === 'giftBox';
-  const isCandyCane = config.geometryType === 'candyCane';
-
-  // Pre-calculate positions for both states
-  const data = useMemo(() => {
-    const items: PositionData[] = [];
-    const { count, scaleMultiplier } = config;
-
-    for (let i = 0; i < count; i++) {
-      // 1. Scatter Position: Random point in a large sphere
-      const rScatter = 35 * Math.cbrt(Math.random()); 
-      const thetaScatter = Math.random() * 2 * Math.PI;
-      const phiScatter = Math.acos(2 * Math.random() - 1);
-      
-      const scatterPos = new THREE.Vector3(
-        rScatter * Math.sin(phiScatter) * Math.cos(thetaScatter),
-        rScatter * Math.sin(phiScatter) * Math.sin(thetaScatter),
-        rScatter * Math.cos(phiScatter)
-      );
-
-      // 2. Tree Position: Cone spiral
-      const hNormalized = Math.random(); 
-      const y = (hNormalized * 18) - 9; // -9 to 9 height
-      
-      const maxRadiusAtY = (1 - (y + 9) / 18) * 6 + 0.5; 
-      const radius = Math.random() * maxRadiusAtY; 
-      const angle = y * 5 + Math.random() * Math.PI * 2;
-
-      const treePos = new THREE.Vector3(
-        Math.cos(angle) * radius,
-        y,
-        Math.sin(angle) * radius
-      );
-
-      const rotation = new THREE.Euler(
-        Math.random() * Math.PI,
-        Math.random() * Math.PI,
-        Math.random() * Math.PI
-      );
-
-      const scale = (0.5 + Math.random() * 1.5) * scaleMultiplier;
-
-      items.push({ scatterPos, treePos, rotation, scale });
-    }
-    return items;
-  }, [config]);
-
-  // Candy Cane Striped Texture
-  const stripedTexture = useMemo(() => {
-    if (config.geometryType !== 'candyCane') return null;
-    
-    const canvas = document.createElement('canvas');
-    canvas.width = 64;
-    canvas.height = 64;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-
-    // White background
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, 64, 64);
-
-    // Red stripes
-    ctx.fillStyle = '#ff0000';
-    
-    // Create diagonal stripes
-    ctx.beginPath();
-    for (let i = -64; i < 128; i += 16) {
-      ctx.moveTo(i, 0);
-      ctx.lineTo(i + 16, 64);
-      ctx.lineTo(i + 8, 64);
-      ctx.lineTo(i - 8, 0);
-    }
-    ctx.fill();
-
-    const tex = new THREE.CanvasTexture(canvas);
-    tex.wrapS = THREE.RepeatWrapping;
-    tex.wrapT = THREE.RepeatWrapping;
-    // Repeat texture along the tube length to create spiral
-    tex.repeat.set(1, 8); 
-    return tex;
-  }, [config.geometryType]);
-
-  // Geometry Factory
-  const Geometry = useMemo(() => {
-    switch (config.geometryType) {
-      case 'box': return <boxGeometry args={[0.8, 0.8, 0.8]} />;
-      case 'giftBox': return <boxGeometry args={[0.8, 0.8, 0.8]} />; // Main box
-      case 'cylinder': return <cylinderGeometry args={[0.3, 0.3, 1, 16]} />;
-      case 'dodecahedron': return <dodecahedronGeometry args={[0.6, 0]} />;
-      case 'candyCane': {
-        // Create a hook shape curve
-        const curve = new THREE.CatmullRomCurve3([
-          new THREE.Vector3(0, -0.6, 0),
-          new THREE.Vector3(0, 0.4, 0),    // Straight up
-          new THREE.Vector3(0.1, 0.6, 0),  // Start curve
-          new THREE.Vector3(0.3, 0.5, 0),  // Peak
-          new THREE.Vector3(0.35, 0.3, 0)  // Tip down
-        ]);
-        return <tubeGeometry args={[curve, 32, 0.08, 8, false]} />;
+  const clickedAtRef = useRef(-Infinity);
+  const clickable = (config.clickActions?.length ?? 0) > 0;
+  const hitRadius = useMemo(
+    () =>
+      parts.reduce((radius, { geometry }) => {
+        geometry.computeBoundingSphere();
+        const sphere = geometry.boundingSphere;
+        return sphere ? Math.max(radius, sphere.center.length() + sphere.radius) : radius;
+      }, 0) || 0.5,
+    [parts]
+  );
+
+  const raycast = useCallback(
+    (raycaster: THREE.Raycaster, intersects: THREE.Intersection[]) => {
+      const mesh = meshRef.current;
+      if (!mesh) return;
+      const sphere = new THREE.Sphere();
+      const point = new THREE.Vector3();
+      for (let i = 0; i < config.count; i++) {
+        morphInstancePosition(attributes, uniforms, i, sphere.center);
+        sphere.radius = hitRadius * attributes.scale.getX(i) * uniforms.uScale.value;
+        if (!raycaster.ray.intersectSphere(sphere, point)) continue;
+        const distance = raycaster.ray.origin.distanceTo(point);
+        if (distance < raycaster.near || distance > raycaster.far) continue;
+        intersects.push({ distance, point: point.clone(), object: mesh, instanceId: i });
       }
-      case 'sphere': default: return <sphereGeometry args={[0.5, 32, 32]} />;
-    }
-  }, [config.geometryType]);
+    },
+    [attributes, uniforms, hitRadius, config.count]
+  );
+
+  const handlePointerMove = useCallback(
+    (e: ThreeEvent<PointerEvent>) => {
+      e.stopPropagation();
+      uniforms.uHover.value = e.instanceId ?? -1;
+      setHoverCursor(true);
+    },
+    [uniforms]
+  );
+
+  const handlePointerOut = useCallback(() => {
+    uniforms.uHover.value = -1;
+    setHoverCursor(false);
+  }, [uniforms]);
+
+  const handleClick = useCallback(
+    (e: ThreeEvent<MouseEvent>) => {
+      e.stopPropagation();
+      const index = e.instanceId;
+      if (index === undefined) return;
+      const actions = config.clickActions ?? [];
+
+      uniforms.uClicked.value = index;
+      uniforms.uClickPop.value = actions.includes('pop') ? 1 : 0;
+      uniforms.uClickSpin.value = actions.includes('spin') ? 1 : 0;
+      clickedAtRef.current = uniforms.uTime.value;
+
+      if (actions.includes('chime')) playChime(CHIME_NOTES[index % CHIME_NOTES.length]);
+      const greetings = config.greetings ?? [];
+      if (actions.includes('greeting') && greetings.length > 0) {
+        onGreeting?.(greetings[index % greetings.length], morphInstancePosition(attributes, uniforms, index));
+      }
+    },
+    [config.clickActions, config.greetings, uniforms, attributes, onGreeting]
+  );
 
-  // Gift Box Decoration Geometries
-  const ribbon1Geo = useMemo(() => <boxGeometry args={[0.82, 0.82, 0.2]} />, []);
-  const ribbon2Geo = useMemo(() => <boxGeometry args={[0.2, 0.82, 0.82]} />, []);
-  const bowGeo = useMemo(() => {
-    const geo = new THREE.TorusKnotGeometry(0.15, 0.04, 64, 8);
-    geo.translate(0, 0.45, 0); 
-    return <primitive object={geo} attach="geometry" />;
-  }, []);
+  useEffect(() => () => disposeParts(parts), [parts]);
+  useEffect(() => () => depthMaterial.dispose(), [depthMaterial]);
 
   // Animation Loop
   useFrame((stateThree, delta) => {
-    if (!meshRef.current) return;
-
-    const targetFactor = state === TreeState.TREE_SHAPE ? 1 : 0;
-    const currentFactor = meshRef.current.userData.factor ?? 0;
-    
-    // Smooth interpolation
-    const speed = 2.5;
-    const newFactor = THREE.MathUtils.lerp(currentFactor, targetFactor, delta * speed);
-    meshRef.current.userData.factor = newFactor;
-
-    const time = stateThree.clock.elapsedTime;
-
-    data.forEach((item, i) => {
-      // Interpolate position
-      tempVec3.lerpVectors(item.scatterPos, item.treePos, newFactor);
-      
-      // Floating movement
-      const floatIntensity = 1 - newFactor * 0.8; 
-      const floatY = Math.sin(time + i * 10) * 0.5 * floatIntensity;
-      const floatX = Math.cos(time * 0.5 + i * 5) * 0.5 * floatIntensity;
-      
-      tempObject.position.copy(tempVec3).add(new THREE.Vector3(floatX, floatY, 0));
-      
-      // Rotation logic
-      if (isCandyCane) {
-         // Candy canes should mostly stand upright-ish when in tree, but scattered otherwise
-         // We blend between random rotation and a more upright orientation for the hook
-         // Actually, let's keep them spinning for fun, maybe slow them down in tree
-         tempObject.rotation.set(
-            item.rotation.x + time * 0.5,
-            item.rotation.y + time * 0.5,
-            item.rotation.z
-         );
-      } else {
-         tempObject.rotation.set(
-            item.rotation.x + time * 0.2,
-            item.rotation.y + time * 0.2,
-            item.rotation.z
-          );
-      }
-      
-      tempObject.scale.setScalar(item.scale);
-      tempObject.updateMatrix();
-      
-      // Update Main Mesh
-      meshRef.current!.setMatrixAt(i, tempObject.matrix);
-
-      // Update Decoration Meshes if Gift Box
-      if (isGiftBox) {
-        if (ribbon1Ref.current) ribbon1Ref.current.setMatrixAt(i, tempObject.matrix);
-        if (ribbon2Ref.current) ribbon2Ref.current.setMatrixAt(i, tempObject.matrix);
-        if (bowRef.current) bowRef.current.setMatrixAt(i, tempObject.matrix);
-      }
+    parts.forEach((part, i) => {
+      const material = materialRefs.current[i];
+      if (!material || isOwnMaterial(part.material)) return;
+      const own = part.material ?? {};
+      if (part.accent) material.color.copy(accentColor);
+      else if (own.color === undefined) material.color.copy(color);
+      if (own.emissive === undefined) material.emissive.copy(color);
+      if (own.emissiveIntensity === undefined) material.emissiveIntensity = emissiveIntensity.value;
     });
 
-    meshRef.current.instanceMatrix.needsUpdate = true;
-    if (isGiftBox) {
-      if (ribbon1Ref.current) ribbon1Ref.current.instanceMatrix.needsUpdate = true;
-      if (ribbon2Ref.current) ribbon2Ref.current.instanceMatrix.needsUpdate = true;
-      if (bowRef.current) bowRef.current.instanceMatrix.needsUpdate = true;
+    const now = stateThree.clock.elapsedTime;
+    uniforms.uBounce.value = audio.active ? audio.beat : 0;
+    uniforms.uClickTime.value = Math.min(CLICK_SECONDS, Math.max(0, now - clickedAtRef.current));
+
+    if (pointerField?.enabled) {
+      // Where the ornaments rest is looked up once a formation has settled,
+      // instead of every frame; while one is forming, nothing is pushed
+      if (uniforms.uProgress.value < 1) field.rest = null;
+      else if (field.rest?.radius !== pointerField.radius) {
+        cachePointerFieldRest(field, attributes.to.array as Float32Array, config.count, pointerField.radius);
+      }
+      const ray = pointerRay?.current ?? null;
+      const swirl = getShape(morph.target).scattered;
+      const moved = stepPointerField(field, pointerField, config.count, ray, swirl, delta);
+      if (moved) {
+        // Only the instances that moved go up to the GPU
+        attributes.offset.clearUpdateRanges();
+        attributes.offset.addUpdateRange(moved.first * 3, (moved.last - moved.first + 1) * 3);
+        attributes.offset.needsUpdate = true;
+      }
     }
   });
 
+  // Instance matrices stay identity, so culling by them would be wrong. The
+  // first part is the body and takes the pointer for the whole ornament.
   return (
     <group>
-      {/* Main Object */}
-      <instancedMesh ref={meshRef} args={[undefined, undefined, config.count]} castShadow receiveShadow>
-        {Geometry}
-        <meshStandardMaterial 
-          color={isCandyCane ? '#ffffff' : config.color} 
-          metalness={config.metalness} 
-          roughness={config.roughness}
-          emissive={isCandyCane ? '#000000' : config.color}
-          emissiveIntensity={isCandyCane ? 0 : (config.emissiveIntensity ?? 0.2)}
-          envMapIntensity={config.envMapIntensity ?? 2}
-          map={stripedTexture}
-        />
-      </instancedMesh>
-
-      {/* Decorations for Gift Box */}
-      {isGiftBox && (
-        <>
-          <instancedMesh ref={ribbon1Ref} args={[undefined, undefined, config.count]}>
-            {ribbon1Geo}
-            <meshStandardMaterial color="#FFD700" metalness={1} roughness={0.1} envMapIntensity={3} />
-          </instancedMesh>
-          <instancedMesh ref={ribbon2Ref} args={[undefined, undefined, config.count]}>
-            {ribbon2Geo}
-            <meshStandardMaterial color="#FFD700" metalness={1} roughness={0.1} envMapIntensity={3} />
-          </instancedMesh>
-          <instancedMesh ref={bowRef} args={[undefined, undefined, config.count]}>
-            {bowGeo}
-            <meshStandardMaterial color="#FFD700" metalness={1} roughness={0.1} envMapIntensity={3} />
-          </instancedMesh>
-        </>
-      )}
+      {parts.map((part, i) => (
+        <instancedMesh
+          key={i}
+          ref={i === 0 ? meshRef : undefined}
+          args={[undefined, undefined, config.count]}
+          raycast={i === 0 ? raycast : undefined}
+          onPointerMove={i === 0 && clickable ? handlePointerMove : undefined}
+          onPointerOut={i === 0 && clickable ? handlePointerOut : undefined}
+          onClick={i === 0 && clickable ? handleClick : undefined}
+          castShadow
+          receiveShadow
+          frustumCulled={false}
+          customDepthMaterial={depthMaterial}
+        >
+          <primitive object={part.geometry} attach="geometry" />
+          {isOwnMaterial(part.material) ? (
+            <primitive object={part.material} attach="material" />
+          ) : (
+            <meshStandardMaterial
+              ref={(material) => {
+                materialRefs.current[i] = material;
+              }}
+              {...morphShader}
+              metalness={config.metalness}
+              roughness={config.roughness}
+              envMapIntensity={config.envMapIntensity ?? 2}
+              {...part.material}
+            />
+          )}
+        </instancedMesh>
+      ))}
     </group>
   );
-};
\ No newline at end of file
+};
@@ -1,8 +1,18 @@
 
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { useThree } from '@react-three/fiber';
+import { shortcutKey } from '../utils/interaction';
 
-export const RecordButton: React.FC = () => {
+interface RecordButtonProps {
+  // Seconds to record: one pass of the timeline
+  duration: number;
+  // Starts a recording each time it changes (like EffectTrigger ids)
+  request?: number;
+  // No button and no R shortcut; recordings only start through `request`
+  hidden?: boolean;
+}
+
+export const RecordButton: React.FC<RecordButtonProps> = ({ duration, request, hidden = false }) => {
   const { gl } = useThree();
   const [isRecording, setIsRecording] = useState(false);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -55,14 +65,35 @@ export const RecordButton: React.FC = () => {
     setIsRecording(true);
     mediaRecorderRef.current = recorder;
 
-    // Automatically stop after 14 seconds (Approx one full Tree <-> Scatter cycle)
+    // Automatically stop after one full pass of the timeline
     setTimeout(() => {
       if (recorder.state === 'recording') {
         recorder.stop();
       }
-    }, 14000); 
+    }, duration * 1000); 
+
+  }, [gl, duration]);
+
+  // A request from outside the canvas, e.g. the embed's startRecording()
+  const lastRequestRef = useRef(request);
+  useEffect(() => {
+    if (request === lastRequestRef.current) return;
+    lastRequestRef.current = request;
+    if (!isRecording) startRecording();
+  }, [request, isRecording, startRecording]);
+
+  // R starts a recording from the keyboard
+  useEffect(() => {
+    if (hidden) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const key = shortcutKey(event);
+      if ((key === 'r' || key === 'R') && !isRecording) startRecording();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [hidden, isRecording, startRecording]);
 
-  }, [gl]);
+  if (hidden) return null;
 
   return (
     <div 
@@ -86,7 +117,7 @@ export const RecordButton: React.FC = () => {
         `}
       >
         <div className={`w-2 h-2 rounded-full ${isRecording ? 'bg-red-500 animate-pulse' : 'bg-white/70'}`} />
-        {isRecording ? 'Recording (14s)...' : 'Record Loop'}
+        {isRecording ? `Recording (${Math.round(duration)}s)...` : 'Record Loop'}
       </button>
     </div>
   );
@@ -1,224 +1,567 @@
-import React, { Suspense } from 'react';
-import { Canvas } from '@react-three/fiber';
-import { Environment, OrbitControls, ContactShadows, Stars, Html } from '@react-three/drei';
+import React, { Suspense, useMemo, useState, useCallback, useRef, useEffect } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { Environment, OrbitControls, ContactShadows, Stars, Html, PerformanceMonitor } from '@react-three/drei';
 import { EffectComposer, Bloom, Vignette, Noise } from '@react-three/postprocessing';
+import type { BloomEffect, EffectComposer as EffectComposerImpl } from 'postprocessing';
 import * as THREE from 'three';
+import { FiberProvider, useContextBridge } from 'its-fine';
 import { MorphingGroup } from './MorphingGroup';
 import { FloatingSnow } from './FloatingSnow';
+import { SnowCover } from './SnowCover';
 import { TopStar } from './TopStar';
 import { Logo } from './Logo';
+import { StringLights } from './StringLights';
 import { RecordButton } from './RecordButton';
-import { TreeState } from '../types';
+import { ExportButton } from './ExportButton';
+import { SnapshotButton } from './SnapshotButton';
+import { CameraRig } from './CameraRig';
+import { KeyboardOrbit } from './KeyboardOrbit';
+import { BurnInCamera, BurnInGroup } from './BurnIn';
+import { ContextLossRecovery } from './ContextLossRecovery';
+import { GreetingCard } from './GreetingCard';
+import { usePointerRay } from './usePointerRay';
+import {
+  MorphTarget,
+  ExportScript,
+  ScriptedStep,
+  TransitionConfig,
+  CameraMove,
+  TimelineEffect,
+  EffectTrigger,
+  SceneConfig,
+  LightConfig,
+  PostProcessingConfig,
+  QualityTier,
+  Vec3Tuple,
+} from '../types';
+import { validateSceneConfig, SceneConfigError } from '../config/validateSceneConfig';
+import { AUTO_START_TIER, QUALITY_PRESETS, applyQuality, stepQuality } from '../config/quality';
+import { applyTheme, getTheme } from '../config/themes';
+import { getShape } from '../shapes';
+import { SeedProvider } from './SeedContext';
+import { AudioLevelsProvider, useAudioLevels } from './AudioLevelsContext';
+import { AudioButton, AudioSampler } from './AudioButton';
+import { AudioAnalyser, createAudioLevels } from '../utils/audioAnalyser';
+import { useFadedColor, useFadedNumber } from './useThemeFade';
+import { useMotionScale } from './useReducedMotion';
 
 interface SceneProps {
-  treeState: TreeState;
-  toggleState: () => void;
+  treeState: MorphTarget;
+  // How the scene morphs into `treeState`; also times camera glides
+  transition: TransitionConfig;
+  // Called once every particle has arrived in `treeState`
+  onTransitionEnd?: (state: MorphTarget) => void;
+  config: SceneConfig;
+  // Camera glide or named shot requested by the current timeline step
+  cameraMove: CameraMove | null;
+  cameraShot: string | null;
+  effectTrigger: EffectTrigger | null;
+  // Length of a real-time recording, in seconds
+  recordDuration: number;
+  // Starts a real-time recording each time it changes
+  recordRequest?: number;
+  // The on-canvas buttons (record, audio, export, snapshot) and the keyboard
+  // shortcuts that go with them. Off when embedded in another page.
+  showControls?: boolean;
+  // Kiosk lights-off: the picture is frozen and nothing is rendered
+  sleeping?: boolean;
+  // Formations replayed by the frame-by-frame video export
+  exportScript: ExportScript;
+  onExportingChange: (exporting: boolean) => void;
 }
 
-export const Scene: React.FC<SceneProps> = ({ treeState, toggleState }) => {
-  return (
-    <Canvas
-      shadows
-      camera={{ position: [0, 0, 25], fov: 45 }}
-      gl={{ 
-        antialias: false, 
-        toneMapping: THREE.ReinhardToneMapping, 
-        toneMappingExposure: 1.5,
-        preserveDrawingBuffer: true // Required for recording to work reliably
-      }}
-      dpr={[1, 2]}
-      onClick={toggleState} // Interaction happens on the whole canvas
-    >
-      <color attach="background" args={['#000500']} />
-      
-      <Suspense fallback={null}>
-        {/* UI Overlay for Recording */}
-        <Html fullscreen style={{ pointerEvents: 'none' }}>
-           <RecordButton />
-        </Html>
-
-        {/* Cinematic Lighting */}
-        <ambientLight intensity={0.2} color="#002200" />
-        <spotLight 
-          position={[10, 20, 10]} 
-          angle={0.5} 
-          penumbra={1} 
-          intensity={15} 
-          color="#ffd700" 
-          castShadow 
+const SceneLight: React.FC<{ light: LightConfig }> = ({ light }) => {
+  // Colour and intensity blend over when the theme changes
+  const lightRef = useRef<THREE.Light>(null);
+  const color = useFadedColor(light.color);
+  const intensity = useFadedNumber(light.intensity);
+  useFrame(() => {
+    if (!lightRef.current) return;
+    lightRef.current.color.copy(color);
+    lightRef.current.intensity = intensity.value;
+  });
+
+  switch (light.type) {
+    case 'ambient':
+      return <ambientLight ref={lightRef} />;
+    case 'directional':
+      return (
+        <directionalLight
+          ref={lightRef}
+          position={light.position}
+          castShadow={light.castShadow}
         />
-        <pointLight position={[-10, 5, -10]} intensity={5} color="#00ff88" />
-        <pointLight position={[0, -10, 5]} intensity={5} color="#ff0044" />
-
-        {/* Environment for Reflection (Crucial for Gold) */}
-        <Environment preset="city" />
-
-        {/* Particle Groups */}
-        
-        {/* 1. Golden Spheres (Original High Gloss) - Reduced count to share with Velvet */}
-        <MorphingGroup 
-          state={treeState}
-          config={{
-            count: 350,
-            color: '#FFD700', // Gold
-            metalness: 1,
-            roughness: 0.1,
-            geometryType: 'sphere',
-            scaleMultiplier: 0.8,
-            envMapIntensity: 2
-          }} 
+      );
+    case 'spot':
+      return (
+        <spotLight
+          ref={lightRef}
+          position={light.position}
+          angle={light.angle}
+          penumbra={light.penumbra}
+          distance={light.distance}
+          decay={light.decay}
+          castShadow={light.castShadow}
         />
-
-        {/* 1b. Velvet Gold Spheres (New) - Matte, Fabric-like finish */}
-        <MorphingGroup 
-          state={treeState}
-          config={{
-            count: 250,
-            color: '#FDB931', // Richer, warmer gold for velvet
-            metalness: 0.1,   // Low metalness makes it look like fabric/matte
-            roughness: 1.0,   // High roughness for velvet/felt texture
-            geometryType: 'sphere',
-            scaleMultiplier: 0.8,
-            envMapIntensity: 0.2 // Very low reflection
-          }} 
+      );
+    case 'point':
+      return (
+        <pointLight
+          ref={lightRef}
+          position={light.position}
+          distance={light.distance}
+          decay={light.decay}
+          castShadow={light.castShadow}
         />
+      );
+  }
+};
 
-        {/* 2. Emerald Gems - Shiny Dark Green (Ink Green) */}
-        <MorphingGroup 
-          state={treeState}
-          config={{
-            count: 200,
-            color: '#004225', // Deep Ink Green
-            metalness: 0.8, 
-            roughness: 0.1, 
-            geometryType: 'sphere',
-            scaleMultiplier: 1.0,
-            emissiveIntensity: 0.2, 
-            envMapIntensity: 3.0 
-          }} 
-        />
+// Scene background, blending over when the theme changes. Hidden leaves
+// the canvas transparent.
+const Background: React.FC<{ color: string; hidden?: boolean }> = ({ color, hidden = false }) => {
+  const faded = useFadedColor(color);
+  const scene = useThree((s) => s.scene);
+  useEffect(() => {
+    scene.background = hidden ? null : faded;
+    return () => {
+      scene.background = null;
+    };
+  }, [scene, faded, hidden]);
+  return null;
+};
 
-        {/* 3. Silver Spheres */}
-        <MorphingGroup 
-          state={treeState}
-          config={{
-            count: 200,
-            color: '#E0E0E0', // Bright Silver
-            metalness: 1.0,
-            roughness: 0.1,
-            geometryType: 'sphere',
-            scaleMultiplier: 0.5, 
-            envMapIntensity: 2.5
-          }} 
-        />
+interface PostProcessingProps {
+  config: PostProcessingConfig;
+  // Changes whenever the timeline fires a bloom pulse
+  pulseId: number | null;
+  // Set to the composer while there is one, for snapshots
+  composerRef: React.Ref<EffectComposerImpl>;
+}
 
-        {/* 3b. Matte Red Spheres (New) - Frosted/Ceramic look */}
-        <MorphingGroup 
-          state={treeState}
-          config={{
-            count: 150,
-            color: '#D32F2F', // Matte Red
-            metalness: 0.0,   // Non-metallic
-            roughness: 0.8,   // Frosted surface
-            geometryType: 'sphere',
-            scaleMultiplier: 0.9,
-            envMapIntensity: 0.5
-          }} 
-        />
+// Bloom briefly flares to this multiple of its configured intensity
+const BLOOM_PULSE_STRENGTH = 1.5;
+const BLOOM_PULSE_SECONDS = 1.2;
+// With music playing, bloom runs from this share of its intensity (silence)
+// up to that plus BLOOM_AUDIO_GAIN (loud mids)
+const BLOOM_AUDIO_FLOOR = 0.5;
+const BLOOM_AUDIO_GAIN = 1.5;
 
-        {/* 4. Candy Canes */}
-        <MorphingGroup 
-          state={treeState}
-          config={{
-            count: 100,
-            color: '#FFFFFF', 
-            metalness: 0.1, 
-            roughness: 0.4,
-            geometryType: 'candyCane',
-            scaleMultiplier: 1.5, 
-            envMapIntensity: 1.0
-          }} 
-        />
+const PostProcessing: React.FC<PostProcessingProps> = ({ config, pulseId, composerRef }) => {
+  const bloomRef = useRef<BloomEffect>(null);
+  const pulseStartRef = useRef<number | null>(null);
+  const clock = useThree((state) => state.clock);
+  const audio = useAudioLevels();
+  const intensity = useFadedNumber(config.bloom.intensity);
+  const threshold = useFadedNumber(config.bloom.luminanceThreshold);
 
-        {/* 5. Gift Boxes (Red, Orange, Blue) */}
-        {/* Red Gifts */}
-        <MorphingGroup 
-          state={treeState}
-          config={{
-            count: 50,
-            color: '#C41E3A', // Cardinal Red
-            metalness: 0.5,
-            roughness: 0.2,
-            geometryType: 'giftBox',
-            scaleMultiplier: 0.9,
-            envMapIntensity: 1.5
-          }} 
-        />
-        
-        {/* Orange Gifts */}
-        <MorphingGroup 
-          state={treeState}
-          config={{
-            count: 40,
-            color: '#E65100', // Deep Orange / Bronze
-            metalness: 0.6,
-            roughness: 0.2,
-            geometryType: 'giftBox',
-            scaleMultiplier: 0.85,
-            envMapIntensity: 1.5
-          }} 
-        />
+  useEffect(() => {
+    if (pulseId !== null) pulseStartRef.current = clock.elapsedTime;
+  }, [pulseId, clock]);
 
-        {/* Blue Gifts */}
-        <MorphingGroup 
-          state={treeState}
-          config={{
-            count: 40,
-            color: '#1A237E', // Royal/Midnight Blue
-            metalness: 0.6,
-            roughness: 0.2,
-            geometryType: 'giftBox',
-            scaleMultiplier: 0.85,
-            envMapIntensity: 1.5
-          }} 
-        />
+  useFrame(({ clock }) => {
+    if (!bloomRef.current) return;
+    let pulse = 0;
+    if (pulseStartRef.current !== null) {
+      const t = (clock.elapsedTime - pulseStartRef.current) / BLOOM_PULSE_SECONDS;
+      pulse = t >= 1 || t < 0 ? 0 : Math.sin(t * Math.PI) * BLOOM_PULSE_STRENGTH;
+      if (t >= 1) pulseStartRef.current = null;
+    }
+    const music = audio.active ? BLOOM_AUDIO_FLOOR + audio.mids * BLOOM_AUDIO_GAIN : 1;
+    bloomRef.current.intensity = intensity.value * (1 + pulse) * music;
+    bloomRef.current.luminanceMaterial.threshold = threshold.value;
+  });
 
-        {/* 6. The Tree Top Star */}
-        <TopStar state={treeState} />
-        
-        {/* 7. The Logo */}
-        <Logo state={treeState} />
-
-        {/* Background & Atmosphere */}
-        <FloatingSnow />
-        <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
-        
-        {/* Floor Reflections only visible near bottom */}
-        <ContactShadows opacity={0.5} scale={30} blur={2} far={10} resolution={256} color="#000000" />
-
-        {/* Post Processing for the "Dreamy/Luxurious" look */}
-        <EffectComposer enableNormalPass={false}>
-          <Bloom 
-            luminanceThreshold={0.8} 
-            mipmapBlur 
-            intensity={1.2} 
-            radius={0.4}
-          />
-          <Noise opacity={0.02} />
-          <Vignette eskil={false} offset={0.1} darkness={1.1} />
-        </EffectComposer>
-
-        {/* Camera Controls */}
-        <OrbitControls 
-          enablePan={false} 
-          minPolarAngle={Math.PI / 3} 
-          maxPolarAngle={Math.PI / 1.8}
-          minDistance={15}
-          maxDistance={40}
-          autoRotate={treeState === TreeState.TREE_SHAPE}
-          autoRotateSpeed={0.5}
-        />
-      </Suspense>
+  // EffectComposer only accepts element children, so build the list up front
+  const effects: React.JSX.Element[] = [];
+  if (config.bloom.enabled) {
+    effects.push(
+      <Bloom 
+        key="bloom"
+        ref={bloomRef}
+        luminanceThreshold={config.bloom.luminanceThreshold} 
+        mipmapBlur 
+        intensity={config.bloom.intensity} 
+        radius={config.bloom.radius}
+      />
+    );
+  }
+  if (config.noise.enabled) {
+    effects.push(<Noise key="noise" opacity={config.noise.opacity} />);
+  }
+  if (config.vignette.enabled) {
+    effects.push(
+      <Vignette key="vignette" eskil={false} offset={config.vignette.offset} darkness={config.vignette.darkness} />
+    );
+  }
+  if (effects.length === 0) return null;
+
+  return (
+    <EffectComposer ref={composerRef} enableNormalPass={false}>
+      {effects}
+    </EffectComposer>
+  );
+};
+
+interface TransitionWatcherProps {
+  state: MorphTarget;
+  transition: TransitionConfig;
+  onTransitionEnd?: (state: MorphTarget) => void;
+}
+
+// Every morphing component finishes exactly `duration` seconds after the
+// state changes, staggered or not, so one clock is enough to report the end
+const TransitionWatcher: React.FC<TransitionWatcherProps> = ({ state, transition, onTransitionEnd }) => {
+  const clock = useThree((s) => s.clock);
+  const pendingRef = useRef<{ state: MorphTarget; endsAt: number } | null>(null);
+
+  useEffect(() => {
+    pendingRef.current = { state, endsAt: clock.elapsedTime + transition.duration };
+    // Only a new state starts a transition; a changed config applies to the next one
+  }, [state, clock]);
+
+  useFrame(({ clock }) => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    // The clock was rewound (video export starts at 0): restart from here
+    if (pending.endsAt - clock.elapsedTime > transition.duration) {
+      pending.endsAt = clock.elapsedTime + transition.duration;
+    }
+    if (clock.elapsedTime >= pending.endsAt) {
+      pendingRef.current = null;
+      onTransitionEnd?.(pending.state);
+    }
+  });
+
+  return null;
+};
+
+// drei's <Html> renders into a React root of its own, outside the Canvas, so
+// the overlay's buttons get the R3F store and the scene's providers bridged
+// across. Needs a FiberProvider above it in the scene.
+const SceneOverlay: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const Bridge = useContextBridge();
+  return (
+    <Html fullscreen style={{ pointerEvents: 'none' }}>
+      <Bridge>{children}</Bridge>
+    </Html>
+  );
+};
+
+// Shown instead of the canvas when the scene definition is invalid. Styled
+// inline: inside <arix-tree>'s shadow root the page's Tailwind doesn't apply.
+const SceneConfigErrorView: React.FC<{ error: SceneConfigError }> = ({ error }) => (
+  <div
+    style={{
+      position: 'absolute',
+      inset: 0,
+      overflow: 'auto',
+      padding: '2rem',
+      fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace',
+      fontSize: '0.75rem',
+      color: '#fca5a5',
+      background: '#000',
+    }}
+  >
+    <p style={{ margin: '0 0 1rem', fontSize: '0.875rem', color: '#f87171', textTransform: 'uppercase', letterSpacing: '0.1em' }}>
+      Invalid scene config
+    </p>
+    <ul style={{ margin: 0, padding: 0, listStyle: 'none', display: 'grid', gap: '0.25rem' }}>
+      {error.issues.map((issue) => (
+        <li key={issue}>{issue}</li>
+      ))}
+    </ul>
+  </div>
+);
+
+// Tier changes in auto mode before it settles on the tier it is at
+const QUALITY_FLIPFLOPS = 4;
+
+interface SceneContentsProps extends SceneProps {
+  // Segment count multiplier for ornament geometries, from the quality tier
+  detail: number;
+  // Set in auto quality mode: moves the tier up (1) or down (-1) a step
+  onQualityStep?: (steps: number) => void;
+}
+
+// Lives inside the Canvas so export bookkeeping can re-render the scene
+// without re-rendering <Canvas /> (which would reset its size mid-export)
+const SceneContents: React.FC<SceneContentsProps> = ({
+  config,
+  detail,
+  onQualityStep,
+  treeState,
+  transition,
+  onTransitionEnd,
+  cameraMove,
+  cameraShot,
+  effectTrigger,
+  recordDuration,
+  recordRequest,
+  showControls = true,
+  exportScript,
+  onExportingChange,
+}) => {
+  // While exporting, the script decides the formation instead of App
+  const [scriptedStep, setScriptedStep] = useState<ScriptedStep | null>(null);
+  const [epoch, setEpoch] = useState(0);
+  // Set while a still snapshot is rendered
+  const [capture, setCapture] = useState<{ transparent: boolean } | null>(null);
+  const composerRef = useRef<EffectComposerImpl>(null);
+  const audioLevels = useMemo(createAudioLevels, []);
+  const [analyser, setAnalyser] = useState<AudioAnalyser | null>(null);
+  const [greeting, setGreeting] = useState<{ text: string; position: Vec3Tuple } | null>(null);
+  const openGreeting = useCallback(
+    (text: string, position: THREE.Vector3) => setGreeting({ text, position: position.toArray() }),
+    []
+  );
+  const closeGreeting = useCallback(() => setGreeting(null), []);
+  const pointerRay = usePointerRay();
+  const motionScale = useMotionScale();
+  const resetScene = useCallback(() => setEpoch((e) => e + 1), []);
+  const activeState = scriptedStep?.state ?? treeState;
+  const activeTransition = scriptedStep?.transition ?? transition;
+
+  // A shot the timeline asks for wins over the director's pick for the formation
+  const { director } = config.camera;
+  const { kiosk } = config;
+  const shot = (scriptedStep ? null : cameraShot) ?? (director.enabled ? director.shots[activeState] ?? null : null);
+
+  // Only the latest trigger is kept, so null out effects it doesn't include
+  const triggerId = (effect: TimelineEffect) =>
+    effectTrigger?.effects.includes(effect) ? effectTrigger.id : null;
+
+  return (
+    <FiberProvider>
+      <Background color={config.background} hidden={capture?.transparent} />
+
+      <SeedProvider seed={config.seed}>
+        <AudioLevelsProvider levels={audioLevels}>
+          <AudioSampler analyser={analyser} />
+          <Suspense fallback={null}>
+            {/* UI Overlay for Recording */}
+            <SceneOverlay>
+               <RecordButton duration={recordDuration} request={recordRequest} hidden={!showControls} />
+               {showControls && (
+                 <>
+                   <AudioButton onAnalyserChange={setAnalyser} />
+                   <ExportButton
+                     script={exportScript}
+                     cameraPosition={config.camera.position}
+                     onExportingChange={onExportingChange}
+                     onScriptedStep={setScriptedStep}
+                     onReset={resetScene}
+                     composerRef={composerRef}
+                   />
+                   <SnapshotButton onCaptureChange={setCapture} composerRef={composerRef} />
+                 </>
+               )}
+            </SceneOverlay>
+
+            {/* Everything below remounts when an export starts, so every export
+                begins from the same freshly assembled scene */}
+            <React.Fragment key={epoch}>
+              {/* Cinematic Lighting */}
+              {config.lights.map((light, i) => (
+                <SceneLight key={i} light={light} />
+              ))}
+
+              {/* Environment for Reflection (Crucial for Gold) */}
+              <Environment preset={config.environmentPreset} />
+
+              {/* Particle Groups */}
+              {config.groups.map((group, i) => (
+                <MorphingGroup
+                  key={i}
+                  state={activeState}
+                  transition={activeTransition}
+                  config={group}
+                  seedKey={`group:${i}`}
+                  onGreeting={openGreeting}
+                  pointerField={config.pointerField}
+                  pointerRay={pointerRay}
+                  detail={detail}
+                />
+              ))}
+
+              {/* Fairy Lights */}
+              {config.stringLights.enabled &&
+                config.stringLights.strands.map((strand, i) => (
+                  <StringLights
+                    key={i}
+                    config={strand}
+                    state={activeState}
+                    transition={activeTransition}
+                    seedKey={`lights:${i}`}
+                  />
+                ))}
+
+              {/* The Tree Top Star */}
+              {config.topStar.enabled && (
+                <TopStar
+                  state={activeState}
+                  transition={activeTransition}
+                  config={config.topStar}
+                  flareId={triggerId('starFlare')}
+                />
+              )}
+      
+              {/* The Logo */}
+              {config.logo.enabled && (
+                <BurnInGroup
+                  distance={kiosk.enabled ? kiosk.logoShift : 0}
+                  periodMinutes={kiosk.shiftPeriodMinutes}
+                >
+                  <Logo state={activeState} transition={activeTransition} config={config.logo} />
+                </BurnInGroup>
+              )}
+
+              {/* Card opened by clicking a gift */}
+              {greeting && <GreetingCard text={greeting.text} position={greeting.position} onClose={closeGreeting} />}
+
+              {/* Background & Atmosphere */}
+              {config.snow.enabled && <FloatingSnow config={config.snow} state={activeState} />}
+              {config.snow.enabled && config.snow.accumulation.enabled && (
+                <SnowCover
+                  config={config.snow.accumulation}
+                  wind={config.snow.wind}
+                  state={activeState}
+                  transition={activeTransition}
+                />
+              )}
+              {/* Hidden rather than unmounted for transparent snapshots, so the
+                  same stars come back */}
+              {config.starfield.enabled && (
+                <group visible={!capture?.transparent}>
+                  <Stars
+                    radius={config.starfield.radius}
+                    depth={config.starfield.depth}
+                    count={config.starfield.count}
+                    factor={config.starfield.factor}
+                    saturation={config.starfield.saturation}
+                    fade
+                    speed={config.starfield.speed}
+                  />
+                </group>
+              )}
+      
+              {/* Floor Reflections only visible near bottom */}
+              {config.contactShadows.enabled && (
+                <ContactShadows
+                  opacity={config.contactShadows.opacity}
+                  scale={config.contactShadows.scale}
+                  blur={config.contactShadows.blur}
+                  far={config.contactShadows.far}
+                  resolution={config.contactShadows.resolution}
+                  color="#000000"
+                />
+              )}
+
+              {/* Post Processing for the "Dreamy/Luxurious" look */}
+              <PostProcessing
+                config={config.postProcessing}
+                pulseId={triggerId('bloomPulse')}
+                composerRef={composerRef}
+              />
+
+              {/* Camera Controls */}
+              <OrbitControls 
+                makeDefault
+                enablePan={false} 
+                minPolarAngle={Math.PI / 3} 
+                maxPolarAngle={Math.PI / 1.8}
+                minDistance={15}
+                maxDistance={40}
+                // Signage keeps its framing: passers-by can't turn or zoom the view
+                enableRotate={!kiosk.enabled}
+                enableZoom={!kiosk.enabled}
+                autoRotate={!getShape(activeState).scattered}
+                autoRotateSpeed={0.5 * motionScale}
+              />
+              {showControls && !kiosk.enabled && <KeyboardOrbit />}
+              {kiosk.enabled && <BurnInCamera pixels={kiosk.shiftPixels} periodMinutes={kiosk.shiftPeriodMinutes} />}
+              <CameraRig
+                state={activeState}
+                shot={shot}
+                blendBack={director.blendBack}
+                move={scriptedStep ? null : cameraMove}
+                duration={activeTransition.duration}
+              />
+              <TransitionWatcher state={activeState} transition={activeTransition} onTransitionEnd={onTransitionEnd} />
+            </React.Fragment>
+
+            {/* Auto quality follows the frame rate, except while an export
+                or snapshot renders frames as slowly as it needs to */}
+            {onQualityStep && !scriptedStep && !capture && (
+              <PerformanceMonitor
+                flipflops={QUALITY_FLIPFLOPS}
+                onDecline={() => onQualityStep(-1)}
+                onIncline={() => onQualityStep(1)}
+              />
+            )}
+          </Suspense>
+        </AudioLevelsProvider>
+      </SeedProvider>
+    </FiberProvider>
+  );
+};
+
+// Applies the theme and the quality tier (fixed, or stepped by auto mode)
+// and renders the canvas. Only re-renders when Scene's props or the tier change.
+const SceneCanvas: React.FC<SceneProps> = ({ config: validConfig, sleeping = false, ...contentProps }) => {
+  const [autoTier, setAutoTier] = useState<QualityTier>(AUTO_START_TIER);
+  // Bumped to start over on a fresh canvas after the WebGL context was lost
+  const [canvasKey, setCanvasKey] = useState(0);
+  const recoverCanvas = useCallback(() => setCanvasKey((key) => key + 1), []);
+  const stepAutoTier = useCallback((steps: number) => setAutoTier((tier) => stepQuality(tier, steps)), []);
+  const auto = validConfig.quality === 'auto';
+  const quality = QUALITY_PRESETS[auto ? autoTier : validConfig.quality];
+  const config = useMemo(() => {
+    const themed = validConfig.theme ? applyTheme(validConfig, getTheme(validConfig.theme)) : validConfig;
+    return applyQuality(themed, quality);
+  }, [validConfig, quality]);
+
+  return (
+    <Canvas
+      key={canvasKey}
+      frameloop={sleeping ? 'never' : 'always'}
+      shadows
+      camera={{ position: config.camera.position, fov: config.camera.fov }}
+      gl={{ 
+        antialias: false, 
+        toneMapping: THREE.ReinhardToneMapping, 
+        toneMappingExposure: 1.5,
+        preserveDrawingBuffer: true // Required for recording to work reliably
+      }}
+      dpr={quality.dpr}
+    >
+      <ContextLossRecovery onRecover={recoverCanvas} />
+      <SceneContents
+        config={config}
+        detail={quality.detail}
+        onQualityStep={auto ? stepAutoTier : undefined}
+        {...contentProps}
+      />
     </Canvas>
   );
 };
+
+// Memoised: re-rendering <Canvas /> re-applies its measured size, which must
+// not happen while an export has resized the drawing buffer
+export const Scene = React.memo<SceneProps>(({ config: rawConfig, ...contentProps }) => {
+  const validation = useMemo(() => {
+    try {
+      return { config: validateSceneConfig(rawConfig), error: null };
+    } catch (error) {
+      if (!(error instanceof SceneConfigError)) throw error;
+      console.error(error.message);
+      return { config: null, error };
+    }
+  }, [rawConfig]);
+
+  if (!validation.config) {
+    return <SceneConfigErrorView error={validation.error} />;
+  }
+
+  return <SceneCanvas config={validation.config} {...contentProps} />;
+});
@@ -0,0 +1,11 @@
+import React, { createContext, useContext } from 'react';
+
+// The scene-wide layout seed. Components turn it into their own
+// reproducible stream with `randomFor(seed, key)`.
+const SeedContext = createContext<number>(0);
+
+export const SeedProvider: React.FC<{ seed: number; children: React.ReactNode }> = ({ seed, children }) => (
+  <SeedContext.Provider value={seed}>{children}</SeedContext.Provider>
+);
+
+export const useSeed = () => useContext(SeedContext);
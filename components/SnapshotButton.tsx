@@ -0,0 +1,162 @@
+import React, { useState, useCallback } from 'react';
+import * as THREE from 'three';
+import { useThree } from '@react-three/fiber';
+import type { EffectComposer } from 'postprocessing';
+import { downloadBlob } from '../utils/videoExport';
+import {
+  renderOffscreen,
+  pixelsToPng,
+  withDpi,
+  printPixels,
+  SNAPSHOT_SIZES,
+  PRINT_SIZES,
+  PRINT_DPIS,
+  MAX_SNAPSHOT_SIDE,
+  SnapshotSize,
+} from '../utils/snapshot';
+
+interface SnapshotButtonProps {
+  // Set while the still is rendered; transparent hides the background and
+  // starfield
+  onCaptureChange: (capture: { transparent: boolean } | null) => void;
+  // The scene's post-processing, null when every effect is off
+  composerRef: React.RefObject<EffectComposer | null>;
+}
+
+// Gives React a moment to commit a state change before the frame is drawn
+const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+/**
+ * Renders the frame on screen again at poster size, post-processing
+ * included, and downloads it as a PNG. The frame is drawn off screen into
+ * buffers of the output size, so the live canvas keeps its size throughout.
+ */
+export const SnapshotButton: React.FC<SnapshotButtonProps> = ({ onCaptureChange, composerRef }) => {
+  const get = useThree((state) => state.get);
+  const [isOpen, setIsOpen] = useState(false);
+  // A key of SNAPSHOT_SIZES or PRINT_SIZES
+  const [sizeKey, setSizeKey] = useState('4k');
+  const [dpi, setDpi] = useState(300);
+  const [transparent, setTransparent] = useState(false);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const print = PRINT_SIZES[sizeKey];
+  const size: SnapshotSize = print ? printPixels(print, dpi) : SNAPSHOT_SIZES[sizeKey];
+
+  const takeSnapshot = useCallback(async () => {
+    const { width, height } = size;
+    const three = get();
+    const context = three.gl.getContext();
+    const [maxViewportWidth, maxViewportHeight] = context.getParameter(context.MAX_VIEWPORT_DIMS) as Int32Array;
+    const maxWidth = Math.min(MAX_SNAPSHOT_SIDE, three.gl.capabilities.maxTextureSize, maxViewportWidth);
+    const maxHeight = Math.min(MAX_SNAPSHOT_SIDE, three.gl.capabilities.maxTextureSize, maxViewportHeight);
+    if (width > maxWidth || height > maxHeight) {
+      setError(`This device can render at most ${maxWidth}x${maxHeight}`);
+      return;
+    }
+
+    const previous = {
+      frameloop: three.frameloop,
+      elapsedTime: three.clock.elapsedTime,
+    };
+    setError(null);
+    setIsRendering(true);
+
+    try {
+      // 1. Freeze the frame on screen, and drop the background if asked to
+      three.setFrameloop('never');
+      onCaptureChange({ transparent });
+      await settle();
+
+      // 2. Draw that same frame again at the output size
+      const camera = three.camera as THREE.PerspectiveCamera;
+      const pixels = renderOffscreen(three.gl, three.scene, camera, composerRef.current, width, height);
+      const png = await pixelsToPng(pixels, width, height);
+      const name = `arix-christmas-tree-${width}x${height}-${Date.now()}.png`;
+      downloadBlob(print ? await withDpi(png, dpi) : png, name);
+      setIsOpen(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      // 3. Hand the clock back to the live view
+      three.clock.elapsedTime = previous.elapsedTime;
+      three.clock.oldTime = performance.now();
+      three.setFrameloop(previous.frameloop);
+      onCaptureChange(null);
+      setIsRendering(false);
+    }
+  }, [get, size, print, dpi, transparent, onCaptureChange, composerRef]);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: '108px',
+        right: '20px',
+        // Under the video export menu when that is open
+        zIndex: 999,
+        pointerEvents: 'auto'
+      }}
+      className="flex flex-col items-end gap-2 font-mono text-xs tracking-widest uppercase text-white/70"
+    >
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={isRendering}
+        className={`
+          flex items-center gap-2 px-4 py-2 rounded-full border backdrop-blur-md transition-all duration-300 uppercase
+          ${isRendering
+            ? 'bg-amber-500/20 border-amber-500 text-amber-400'
+            : 'bg-white/10 border-white/20 hover:bg-white/20 hover:text-white hover:border-white/50'
+          }
+        `}
+      >
+        {isRendering ? 'Rendering…' : 'Snapshot'}
+      </button>
+
+      {isOpen && !isRendering && (
+        <div className="flex flex-col gap-2 p-3 rounded-xl border border-white/20 bg-black/60 backdrop-blur-md">
+          <select
+            value={sizeKey}
+            onChange={(e) => setSizeKey(e.target.value)}
+            className="bg-transparent border border-white/20 rounded px-2 py-1"
+          >
+            <optgroup label="Screen" className="bg-black">
+              {Object.entries(SNAPSHOT_SIZES).map(([key, preset]) => (
+                <option key={key} value={key} className="bg-black">{preset.label}</option>
+              ))}
+            </optgroup>
+            <optgroup label="Print" className="bg-black">
+              {Object.entries(PRINT_SIZES).map(([key, preset]) => (
+                <option key={key} value={key} className="bg-black">{preset.label}</option>
+              ))}
+            </optgroup>
+          </select>
+          {print && (
+            <select
+              value={dpi}
+              onChange={(e) => setDpi(Number(e.target.value))}
+              className="bg-transparent border border-white/20 rounded px-2 py-1"
+            >
+              {PRINT_DPIS.map((value) => (
+                <option key={value} value={value} className="bg-black">{value} dpi</option>
+              ))}
+            </select>
+          )}
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} />
+            Transparent
+          </label>
+          <button
+            onClick={takeSnapshot}
+            className="px-3 py-1 rounded-full border border-white/30 hover:bg-white/20 hover:text-white"
+          >
+            Save {size.width}x{size.height} PNG
+          </button>
+        </div>
+      )}
+
+      {error && <div className="max-w-xs text-red-400 normal-case tracking-normal">{error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { MorphTarget, SnowAccumulationConfig, SnowWindConfig, TransitionConfig, TreeState } from '../types';
+import { TREE_BOTTOM, TREE_TOP, treeRadiusAt } from '../shapes';
+import { randomFor } from '../utils/random';
+import { SNOW_BURST_SECONDS, SNOW_FLOOR_Y, windAt } from '../utils/snow';
+import { useSeed } from './SeedContext';
+
+interface SnowCoverProps {
+  config: SnowAccumulationConfig;
+  wind: SnowWindConfig;
+  // Snow settles while this is the tree formation
+  state: MorphTarget;
+  // Settling starts once the tree has assembled
+  transition: TransitionConfig;
+}
+
+// Share of the flakes that land on the floor rather than the branches, and
+// how far from the trunk they spread
+const FLOOR_SHARE = 0.4;
+const FLOOR_RADIUS = 14;
+// Seconds a newly landed flake takes to grow to full size
+const SETTLE_SECONDS = 1;
+// Pulls blown-off snow back down, in units per second squared
+const GRAVITY = 3;
+
+/**
+ * Snow resting on the branches and the floor. It builds up flake by flake
+ * while the tree stands, and is blown off in a burst (with the wind) the
+ * moment the tree changes into something else. Timing follows the clock, so
+ * exports see the same build-up.
+ */
+export const SnowCover: React.FC<SnowCoverProps> = ({ config, wind, state, transition }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const seed = useSeed();
+  const { maxFlakes } = config;
+
+  // Resting spots, in the order flakes land, and the way each one flies off
+  const flakes = useMemo(() => {
+    const random = randomFor(seed, 'snow:cover');
+    const rest = new Float32Array(maxFlakes * 3);
+    const away = new Float32Array(maxFlakes * 3);
+    const scale = new Float32Array(maxFlakes);
+    for (let i = 0; i < maxFlakes; i++) {
+      const angle = random() * Math.PI * 2;
+      let radius: number;
+      let y: number;
+      if (random() < FLOOR_SHARE) {
+        radius = Math.sqrt(random()) * FLOOR_RADIUS;
+        y = SNOW_FLOOR_Y;
+      } else {
+        // On the outside of the branches, short of the very tip
+        y = TREE_BOTTOM + random() * (TREE_TOP - TREE_BOTTOM) * 0.95;
+        radius = treeRadiusAt(y) * (0.8 + 0.25 * random());
+      }
+      rest.set([Math.cos(angle) * radius, y, Math.sin(angle) * radius], i * 3);
+      const speed = 0.5 + random();
+      away.set([Math.cos(angle) * speed, (0.6 + random() * 0.6) * speed, Math.sin(angle) * speed], i * 3);
+      scale[i] = 0.15 + random() * 0.2;
+    }
+    return { rest, away, scale };
+  }, [maxFlakes, seed]);
+
+  // Settling starts at `buildAt`; the cover shown when the tree was left
+  // flies off from `burstAt`
+  const cover = useMemo(
+    () => ({
+      target: TreeState.SCATTERED as MorphTarget,
+      buildAt: Infinity,
+      burstAt: -Infinity,
+      burstCount: 0,
+      lastTime: 0,
+    }),
+    []
+  );
+
+  // Reused every frame
+  const scratch = useMemo(
+    () => ({
+      matrix: new THREE.Matrix4(),
+      position: new THREE.Vector3(),
+      rotation: new THREE.Quaternion(),
+      scale: new THREE.Vector3(),
+      wind: new THREE.Vector3(),
+    }),
+    []
+  );
+
+  // How many flakes have landed by `time`
+  const landedAt = (time: number) => {
+    const built = Math.max(0, time - cover.buildAt) / Math.max(config.buildUpSeconds, 0.001);
+    return Math.min(maxFlakes, Math.floor(maxFlakes * built));
+  };
+
+  useFrame(({ clock }) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const t = clock.elapsedTime;
+
+    // The clock was rewound (video export starts at 0): start bare
+    if (t < cover.lastTime) {
+      cover.target = TreeState.SCATTERED;
+      cover.buildAt = Infinity;
+      cover.burstAt = -Infinity;
+    }
+    cover.lastTime = t;
+
+    if (state !== cover.target) {
+      if (cover.target === TreeState.TREE_SHAPE) {
+        cover.burstAt = t;
+        cover.burstCount = landedAt(t);
+      }
+      // Back to the tree: settle once it stands and the old cover is gone
+      cover.buildAt =
+        state === TreeState.TREE_SHAPE
+          ? Math.max(t + transition.duration, cover.burstAt + SNOW_BURST_SECONDS)
+          : Infinity;
+      cover.target = state;
+    }
+
+    const { matrix, position, rotation, scale } = scratch;
+    const sinceBurst = t - cover.burstAt;
+    let shown = 0;
+
+    if (sinceBurst < SNOW_BURST_SECONDS) {
+      // Flying off: thrown outwards and carried by the wind, melting as it goes
+      const windNow = windAt(wind, t, scratch.wind);
+      const fade = 1 - sinceBurst / SNOW_BURST_SECONDS;
+      const drop = 0.5 * GRAVITY * sinceBurst * sinceBurst;
+      shown = Math.min(cover.burstCount, maxFlakes);
+      for (let i = 0; i < shown; i++) {
+        position.fromArray(flakes.rest, i * 3);
+        position.x += (flakes.away[i * 3] * config.burstSpeed + windNow.x) * sinceBurst;
+        position.y += (flakes.away[i * 3 + 1] * config.burstSpeed + windNow.y) * sinceBurst - drop;
+        position.z += (flakes.away[i * 3 + 2] * config.burstSpeed + windNow.z) * sinceBurst;
+        const size = flakes.scale[i] * fade;
+        matrix.compose(position, rotation, scale.set(size, size * 0.45, size));
+        mesh.setMatrixAt(i, matrix);
+      }
+    } else if (cover.target === TreeState.TREE_SHAPE) {
+      // Building up: each flake grows in over a moment after it lands
+      shown = landedAt(t);
+      const perFlake = config.buildUpSeconds / maxFlakes;
+      for (let i = 0; i < shown; i++) {
+        const grown = Math.min(1, (t - cover.buildAt - i * perFlake) / SETTLE_SECONDS);
+        const size = flakes.scale[i] * Math.max(0, grown);
+        position.fromArray(flakes.rest, i * 3);
+        matrix.compose(position, rotation, scale.set(size, size * 0.45, size));
+        mesh.setMatrixAt(i, matrix);
+      }
+    }
+
+    mesh.count = shown;
+    mesh.instanceMatrix.needsUpdate = true;
+  });
+
+  // Flakes move in and out of the tree's bounds, so skip culling
+  return (
+    <instancedMesh ref={meshRef} args={[undefined, undefined, maxFlakes]} frustumCulled={false}>
+      <icosahedronGeometry args={[0.5, 0]} />
+      <meshStandardMaterial color="#ffffff" roughness={0.9} metalness={0} emissive="#ffffff" emissiveIntensity={0.15} />
+    </instancedMesh>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useCallback, useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { MorphTarget, RandomFn, TransitionConfig, TreeState, LightStrandConfig } from '../types';
+import { getShape, TREE_BOTTOM, TREE_TOP, treeRadiusAt } from '../shapes';
+import { randomFor } from '../utils/random';
+import { attachMorphAttributes } from '../utils/morphShader';
+import { createBulbShader, createBulbUniforms } from '../utils/bulbShader';
+import { useSeed } from './SeedContext';
+import { useInstanceMorph } from './useInstanceMorph';
+
+interface StringLightsProps {
+  config: LightStrandConfig;
+  state: MorphTarget;
+  transition: TransitionConfig;
+  // Names this strand's random streams, must be unique within the scene
+  seedKey: string;
+}
+
+// Bulbs hang just outside the ornaments
+const STRAND_CLEARANCE = 0.3;
+
+/**
+ * One strand of fairy lights. On the tree it spirals up the cone; in other
+ * formations its bulbs join the shape like ornaments, and they scatter and
+ * re-wrap with everything else.
+ */
+export const StringLights: React.FC<StringLightsProps> = ({ config, state, transition, seedKey }) => {
+  const seed = useSeed();
+  const { bulbs, turns, phase } = config;
+
+  const layout = useCallback(
+    (id: MorphTarget, count: number, random: RandomFn) => {
+      if (id !== TreeState.TREE_SHAPE) return getShape(id).generate(count, random);
+      return Array.from({ length: count }, (_, i) => {
+        const u = i / Math.max(1, count - 1);
+        const y = TREE_BOTTOM + u * (TREE_TOP - TREE_BOTTOM);
+        const radius = treeRadiusAt(y) + STRAND_CLEARANCE;
+        const angle = (phase + turns * u) * Math.PI * 2;
+        return new THREE.Vector3(Math.cos(angle) * radius, y, Math.sin(angle) * radius);
+      });
+    },
+    [turns, phase]
+  );
+
+  const { attributes, uniforms } = useInstanceMorph({
+    count: bulbs,
+    seedKey,
+    state,
+    transition,
+    minScale: 1,
+    maxScale: 1,
+    scale: config.bulbSize,
+    spinSpeed: 0,
+    layout,
+  });
+
+  const bulbUniforms = useMemo(
+    () => createBulbUniforms(config.pattern, config.speed, config.intensity),
+    [config.pattern, config.speed, config.intensity]
+  );
+  const bulbShader = useMemo(() => createBulbShader(uniforms, bulbUniforms), [uniforms, bulbUniforms]);
+
+  const geometry = useMemo(() => {
+    const random = randomFor(seed, `${seedKey}:bulbs`);
+    const bulb = new Float32Array(bulbs * 3);
+    for (let i = 0; i < bulbs; i++) {
+      bulb[i * 3] = i / Math.max(1, bulbs - 1);
+      bulb[i * 3 + 1] = i;
+      bulb[i * 3 + 2] = random();
+    }
+    const geo = attachMorphAttributes(new THREE.SphereGeometry(1, 12, 12), attributes);
+    geo.setAttribute('aBulb', new THREE.InstancedBufferAttribute(bulb, 3));
+    return geo;
+  }, [attributes, bulbs, seed, seedKey]);
+
+  // Bulbs cycle through the strand's colours
+  const colors = useMemo(() => {
+    const array = new Float32Array(bulbs * 3);
+    const palette = config.colors.map((c) => new THREE.Color(c));
+    for (let i = 0; i < bulbs; i++) palette[i % palette.length].toArray(array, i * 3);
+    return array;
+  }, [bulbs, config.colors]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  // Instance matrices stay identity, so culling by them would be wrong
+  return (
+    <instancedMesh args={[undefined, undefined, bulbs]} frustumCulled={false}>
+      <primitive object={geometry} attach="geometry" />
+      <instancedBufferAttribute attach="instanceColor" args={[colors, 3]} />
+      <meshBasicMaterial {...bulbShader} toneMapped={false} />
+    </instancedMesh>
+  );
+};
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { THEME_PRESETS } from '../config/themes';
+
+interface ThemePickerProps {
+  theme: string | undefined;
+  onChange: (theme: string) => void;
+}
+
+// Bottom-left menu of theme presets; the scene blends into the one picked
+export const ThemePicker: React.FC<ThemePickerProps> = ({ theme, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const current = THEME_PRESETS.find((t) => t.id === theme);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: '20px',
+        left: '20px',
+        zIndex: 1000,
+      }}
+      className="flex flex-col-reverse items-start gap-2 font-mono text-xs tracking-widest uppercase text-white/70"
+    >
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        className="flex items-center gap-2 px-4 py-2 rounded-full border backdrop-blur-md transition-all duration-300 uppercase bg-white/10 border-white/20 hover:bg-white/20 hover:text-white hover:border-white/50"
+      >
+        {current && (
+          <span className="w-2 h-2 rounded-full" style={{ background: current.accent }} />
+        )}
+        {current ? current.label : 'Theme'}
+      </button>
+
+      {isOpen && (
+        <div className="flex flex-col gap-2 p-3 rounded-xl border border-white/20 bg-black/60 backdrop-blur-md">
+          {THEME_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              onClick={() => {
+                setIsOpen(false);
+                onChange(preset.id);
+              }}
+              className={`
+                flex items-center gap-2 px-3 py-1 rounded-full border hover:bg-white/20 hover:text-white
+                ${preset.id === theme ? 'border-white text-white' : 'border-white/30'}
+              `}
+            >
+              <span className="flex">
+                {preset.palette.slice(0, 3).map((color, i) => (
+                  <span key={i} className="w-2 h-2 rounded-full -mr-0.5" style={{ background: color }} />
+                ))}
+              </span>
+              {preset.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,33 +1,75 @@
-import React, { useRef, useMemo } from 'react';
-import { useFrame } from '@react-three/fiber';
+import React, { useRef, useMemo, useEffect } from 'react';
+import { useFrame, useThree, ThreeEvent } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeState } from '../types';
+import { TreeState, MorphTarget, TopStarConfig, TransitionConfig } from '../types';
+import { getShape } from '../shapes';
+import { randomFor } from '../utils/random';
+import { DEFAULT_TRANSITION, staggerDelay, transitionProgress } from '../utils/transition';
+import { starPosition } from '../layout';
+import { useSeed } from './SeedContext';
+import { useAudioLevels } from './AudioLevelsContext';
+import { CHIME_NOTES, playChime, setHoverCursor } from '../utils/interaction';
+import { useFadedColor } from './useThemeFade';
+import { useMotionScale } from './useReducedMotion';
 
 interface TopStarProps {
-  state: TreeState;
+  state: MorphTarget;
+  config: TopStarConfig;
+  // How the next change of `state` plays out
+  transition: TransitionConfig;
+  // Changes whenever the timeline fires a star flare
+  flareId?: number | null;
 }
 
-export const TopStar: React.FC<TopStarProps> = ({ state }) => {
+// A flare is a quick burst of light that fades out over this many seconds
+const FLARE_SECONDS = 1.5;
+
+const formedFor = (id: MorphTarget) => (getShape(id).scattered ? 0 : 1);
+
+export const TopStar: React.FC<TopStarProps> = ({ state, config, transition, flareId = null }) => {
+  const seed = useSeed();
+  const audio = useAudioLevels();
+  // Spin, tumble and pulse are toned down for reduced motion
+  const motionScale = useMotionScale();
+  const clock = useThree((s) => s.clock);
+  const flareStartRef = useRef<number | null>(null);
+  const hoveredRef = useRef(false);
+
+  useEffect(() => {
+    if (flareId !== null) flareStartRef.current = clock.elapsedTime;
+  }, [flareId, clock]);
   const meshRef = useRef<THREE.Group>(null);
   const lightRef = useRef<THREE.PointLight>(null);
   const materialRef = useRef<THREE.MeshStandardMaterial>(null);
+  // Blend over when the theme changes
+  const color = useFadedColor(config.color);
+  const emissive = useFadedColor(config.emissive);
+  const lightColor = useFadedColor(config.lightColor);
   
-  // Target position (Top of tree)
-  // Tree height in MorphingGroup goes roughly from -9 to +9.
-  // The star sits proudly at the peak.
-  const treePos = new THREE.Vector3(0, 10.5, 0);
-  
-  // Random scatter position
-  const scatterPos = useMemo(() => {
-    const r = 40;
-    const theta = Math.random() * Math.PI * 2;
-    const phi = Math.acos(2 * Math.random() - 1);
-    return new THREE.Vector3(
-      r * Math.sin(phi) * Math.cos(theta),
-      r * Math.sin(phi) * Math.sin(theta),
-      r * Math.cos(phi)
-    );
-  }, []);
+  // Where the star goes in each formation (peak of the tree, heart top,
+  // a random point far out when scattered...). Resolved once per formation.
+  const morph = useMemo(() => {
+    const cache = new Map<MorphTarget, THREE.Vector3>();
+    const positionFor = (id: MorphTarget) => {
+      let pos = cache.get(id);
+      if (!pos) {
+        pos = starPosition(id, seed);
+        cache.set(id, pos);
+      }
+      return pos;
+    };
+    return {
+      positionFor,
+      from: positionFor(TreeState.SCATTERED).clone(),
+      fromFormed: 0,
+      target: TreeState.SCATTERED as MorphTarget,
+      transition: DEFAULT_TRANSITION,
+      // Clock time the current transition started at, and when the star joins in
+      startedAt: 0,
+      delay: 0,
+      sparkle: randomFor(seed, 'topStar:sparkle')(),
+    };
+  }, [seed]);
 
   // Create a 5-pointed Star Shape
   const starGeometry = useMemo(() => {
@@ -57,69 +99,105 @@ export const TopStar: React.FC<TopStarProps> = ({ state }) => {
     return geom;
   }, []);
 
-  useFrame((stateThree, delta) => {
+  useFrame((stateThree) => {
     if (!meshRef.current) return;
+    const time = stateThree.clock.elapsedTime;
+    // The clock was rewound (video export starts at 0): restart from here
+    if (time < morph.startedAt) morph.startedAt = time;
+
+    // New formation requested: start from wherever the star is right now
+    if (state !== morph.target) {
+      const progress = transitionProgress(morph.transition, time - morph.startedAt, morph.delay);
+      morph.from.lerp(morph.positionFor(morph.target), progress);
+      morph.fromFormed = THREE.MathUtils.lerp(morph.fromFormed, formedFor(morph.target), progress);
+      const next = morph.positionFor(state);
+      morph.delay = staggerDelay(transition.stagger, getShape(state).scattered ? morph.from : next, morph.sparkle);
+      morph.target = state;
+      morph.transition = transition;
+      morph.startedAt = time;
+    }
 
-    // Interpolation factor
-    const targetFactor = state === TreeState.TREE_SHAPE ? 1 : 0;
-    const currentFactor = meshRef.current.userData.factor ?? 0;
-    const speed = 2.0;
-    const newFactor = THREE.MathUtils.lerp(currentFactor, targetFactor, delta * speed);
-    meshRef.current.userData.factor = newFactor;
+    const factor = transitionProgress(morph.transition, time - morph.startedAt, morph.delay);
 
     // Position interpolation
-    meshRef.current.position.lerpVectors(scatterPos, treePos, newFactor);
+    meshRef.current.position.lerpVectors(morph.from, morph.positionFor(morph.target), factor);
+
+    // How "assembled" the star is: 0 tumbling in space, 1 crowning a formation
+    const newFactor = THREE.MathUtils.lerp(morph.fromFormed, formedFor(morph.target), THREE.MathUtils.clamp(factor, 0, 1));
 
     // Rotation: Continuous spin + alignment
     // When scattered, it tumbles. When in tree, it spins gracefully upright.
-    const time = stateThree.clock.elapsedTime;
     
     // Smooth transition of rotation speed/axis
     // Base spin
-    meshRef.current.rotation.y = time * 0.5;
+    meshRef.current.rotation.y = time * 0.5 * motionScale;
     
     // Tumble effect when scattered (reduced as we approach tree)
-    const tumble = (1 - newFactor) * 2;
+    const tumble = (1 - newFactor) * 2 * motionScale;
     meshRef.current.rotation.x = Math.sin(time) * tumble;
     meshRef.current.rotation.z = Math.cos(time * 0.8) * tumble;
 
+    // Pulse: a steady heartbeat, or the bass when the music drives the tree
+    const pulse = (audio.active ? audio.bass * 2 - 1 : Math.sin(time * 3)) * motionScale; // -1 to 1
+
     // Scale pulsing
     // Pop in when forming tree, slightly smaller when scattered
     const scaleBase = THREE.MathUtils.lerp(0.8, 1.2, newFactor);
-    const pulseScale = 1 + Math.sin(time * 3) * 0.05;
-    meshRef.current.scale.setScalar(scaleBase * pulseScale);
+    const pulseScale = 1 + pulse * 0.05;
 
-    // Pulsing Effects
-    const pulse = Math.sin(time * 3); // -1 to 1
+    // Timeline flare: jumps to full strength, then fades out
+    let flare = 0;
+    if (flareStartRef.current !== null) {
+      const t = (time - flareStartRef.current) / FLARE_SECONDS;
+      flare = t >= 1 || t < 0 ? 0 : Math.pow(1 - t, 2);
+      if (t >= 1) flareStartRef.current = null;
+    }
+
+    meshRef.current.scale.setScalar(scaleBase * pulseScale * (1 + flare * 0.4));
 
+    // Pulsing Effects
     // 1. Light Intensity Pulsing
     if (lightRef.current) {
-      const baseIntensity = 20 * newFactor;
-      const lightPulse = pulse * 5; 
-      lightRef.current.intensity = Math.max(0, baseIntensity + (lightPulse * newFactor));
+      const baseIntensity = config.lightIntensity * newFactor;
+      const lightPulse = pulse * config.lightIntensity * 0.25; 
+      lightRef.current.intensity = Math.max(0, baseIntensity + (lightPulse * newFactor)) * (1 + flare * 2);
+      lightRef.current.color.copy(lightColor);
     }
 
     // 2. Material Emissive Intensity Pulsing (The Glowing Aura)
     // We drive this high to ensure it hits the Bloom threshold
     if (materialRef.current) {
+       materialRef.current.color.copy(color);
+       materialRef.current.emissive.copy(emissive);
        const glowFactor = newFactor; // Only glow intensely when forming the tree
        // Base emissive when tree is formed: 4.5
        // Pulse range: 3.0 to 6.0
        const dynamicEmissive = 4.5 + (pulse * 1.5);
        
        // When scattered, keep it dim (0.5). When tree, pulse high.
-       materialRef.current.emissiveIntensity = 0.5 + (dynamicEmissive * glowFactor);
+       materialRef.current.emissiveIntensity =
+         0.5 + (dynamicEmissive * glowFactor) + flare * 6 + (hoveredRef.current ? 2 : 0);
     }
   });
 
+  // Clicking the star sets off a flare with a low bell
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation();
+    flareStartRef.current = clock.elapsedTime;
+    playChime(CHIME_NOTES[0] / 2);
+  };
+  const setHovered = (hovered: boolean) => (e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    hoveredRef.current = hovered;
+    setHoverCursor(hovered);
+  };
+
   return (
-    <group ref={meshRef}>
+    <group ref={meshRef} onClick={handleClick} onPointerOver={setHovered(true)} onPointerOut={setHovered(false)}>
       <mesh geometry={starGeometry} castShadow>
         <meshStandardMaterial 
           ref={materialRef}
-          color="#ffdd00" 
-          emissive="#ffaa00"
-          // emissiveIntensity is controlled in useFrame
+          // colours and emissiveIntensity are controlled in useFrame
           metalness={1}
           roughness={0.1}
           toneMapped={false} // Critical for Bloom
@@ -128,10 +206,9 @@ export const TopStar: React.FC<TopStarProps> = ({ state }) => {
       {/* Light source attached to star */}
       <pointLight 
         ref={lightRef}
-        color="#ffaa00" 
         distance={25} 
         decay={2} 
-        // intensity is controlled in useFrame
+        // colour and intensity are controlled in useFrame
       />
     </group>
   );
@@ -0,0 +1,200 @@
+import { useMemo } from 'react';
+import * as THREE from 'three';
+import { useFrame } from '@react-three/fiber';
+import { TreeState, MorphTarget, TransitionConfig } from '../types';
+import { getShape } from '../shapes';
+import { randomFor } from '../utils/random';
+import { createMorphUniforms, MorphAttributes } from '../utils/morphShader';
+import {
+  DEFAULT_TRANSITION,
+  easingIndex,
+  staggerDelay,
+  staggerWindow,
+  transitionProgress,
+} from '../utils/transition';
+import {
+  formationPositions,
+  generateFormation,
+  floatIntensity,
+  floatPhase,
+  morphPositions,
+  FormationGenerator,
+} from '../layout';
+import { useSeed } from './SeedContext';
+import { useMotionScale } from './useReducedMotion';
+
+export interface InstanceMorphOptions {
+  count: number;
+  // Names the instances' random streams, must be unique within the scene
+  seedKey: string;
+  state: MorphTarget;
+  // How the next change of `state` plays out
+  transition: TransitionConfig;
+  // Instance sizes are drawn evenly from this range
+  minScale: number;
+  maxScale: number;
+  // Multiplies every size. Applied as a uniform, so it can change every
+  // frame without touching the buffers.
+  scale?: number;
+  // Radians per second the instances spin
+  spinSpeed: number;
+  // Target positions in a formation; defaults to the shape's own generator
+  layout?: FormationGenerator;
+}
+
+/**
+ * Attributes, uniforms and per-frame bookkeeping for instances placed by the
+ * morph shader (utils/morphShader.ts). Starts every instance scattered, and
+ * on each change of `state` snapshots where the instances are and starts a
+ * timed, staggered transition to the new formation.
+ */
+export const useInstanceMorph = ({
+  count,
+  seedKey,
+  state,
+  transition,
+  minScale,
+  maxScale,
+  scale = 1,
+  spinSpeed,
+  layout = generateFormation,
+}: InstanceMorphOptions) => {
+  const seed = useSeed();
+
+  // Per-instance spin seeds, sizes and float phases, shared by every formation
+  const attributes = useMemo<MorphAttributes>(() => {
+    const random = randomFor(seed, `${seedKey}:instances`);
+    const spin = new Float32Array(count * 3);
+    const scale = new Float32Array(count);
+    const phases = new Float32Array(count * 2);
+    const delay = new Float32Array(count);
+
+    for (let i = 0; i < count; i++) {
+      spin[i * 3] = random() * Math.PI;
+      spin[i * 3 + 1] = random() * Math.PI;
+      spin[i * 3 + 2] = random() * Math.PI;
+      scale[i] = minScale + random() * (maxScale - minScale);
+      phases.set(floatPhase(i), i * 2);
+    }
+
+    return {
+      from: new THREE.InstancedBufferAttribute(new Float32Array(count * 3), 3).setUsage(THREE.DynamicDrawUsage),
+      to: new THREE.InstancedBufferAttribute(new Float32Array(count * 3), 3).setUsage(THREE.DynamicDrawUsage),
+      spin: new THREE.InstancedBufferAttribute(spin, 3),
+      scale: new THREE.InstancedBufferAttribute(scale, 1),
+      floatPhase: new THREE.InstancedBufferAttribute(phases, 2),
+      delay: new THREE.InstancedBufferAttribute(delay, 1).setUsage(THREE.DynamicDrawUsage),
+      offset: new THREE.InstancedBufferAttribute(new Float32Array(count * 3), 3).setUsage(THREE.DynamicDrawUsage),
+    };
+  }, [count, minScale, maxScale, seed, seedKey]);
+
+  // Morph bookkeeping. Target positions are generated the first time a
+  // formation is requested; `from` is a snapshot of where every instance was
+  // when the current transition started, so any shape can morph into any other.
+  const morph = useMemo(() => {
+    const cache = new Map<MorphTarget, Float32Array>();
+    const bookkeeping = {
+      // Instances the cached positions and sparkle order are for
+      count: 0,
+      // Fixed per-instance order for the random sparkle stagger
+      sparkle: new Float32Array(0),
+      // The buffers last filled in
+      attributes: null as MorphAttributes | null,
+      fromFloat: floatIntensity(TreeState.SCATTERED),
+      target: TreeState.SCATTERED as MorphTarget,
+      transition: DEFAULT_TRANSITION,
+      // Clock time the current transition started at
+      startedAt: 0,
+      positionsFor: (id: MorphTarget) => {
+        let positions = cache.get(id);
+        if (!positions) {
+          positions = formationPositions(id, bookkeeping.count, seed, seedKey, layout);
+          cache.set(id, positions);
+        }
+        return positions;
+      },
+      resize: (count: number) => {
+        cache.clear();
+        bookkeeping.count = count;
+        const sparkleRandom = randomFor(seed, `${seedKey}:sparkle`);
+        bookkeeping.sparkle = Float32Array.from({ length: count }, () => sparkleRandom());
+      },
+    };
+    return bookkeeping;
+  }, [layout, seed, seedKey]);
+
+  // Fills in new buffers. Everything starts out scattered and assembles on
+  // mount. When only the count changed (quality tier, editor), the instances
+  // both sizes share carry on mid-transition and the new ones join straight
+  // into the current formation.
+  useMemo(() => {
+    const previous = morph.attributes;
+    morph.attributes = attributes;
+    morph.resize(count);
+    const from = attributes.from.array as Float32Array;
+    const to = attributes.to.array as Float32Array;
+    if (!previous) {
+      from.set(morph.positionsFor(TreeState.SCATTERED));
+      to.set(morph.positionsFor(TreeState.SCATTERED));
+      return;
+    }
+
+    const kept = Math.min(previous.from.count, count);
+    from.set((previous.from.array as Float32Array).subarray(0, kept * 3));
+    to.set((previous.to.array as Float32Array).subarray(0, kept * 3));
+    attributes.delay.array.set(previous.delay.array.subarray(0, kept));
+    attributes.offset.array.set(previous.offset.array.subarray(0, kept * 3));
+    const joining = morph.positionsFor(morph.target).subarray(kept * 3);
+    from.set(joining, kept * 3);
+    to.set(joining, kept * 3);
+  }, [morph, attributes, count]);
+
+  const uniforms = useMemo(() => createMorphUniforms(spinSpeed), [spinSpeed]);
+  const motionScale = useMotionScale();
+
+  useFrame((stateThree) => {
+    const now = stateThree.clock.elapsedTime;
+    // The clock was rewound (video export starts at 0): restart from here
+    if (now < morph.startedAt) morph.startedAt = now;
+
+    // New formation requested: freeze the current layout as the start point
+    if (state !== morph.target) {
+      const elapsed = now - morph.startedAt;
+      const from = attributes.from.array as Float32Array;
+      const delay = attributes.delay.array as Float32Array;
+      morphPositions(from, attributes.to.array as Float32Array, delay, morph.transition, elapsed, from);
+      const next = morph.positionsFor(state);
+      attributes.to.array.set(next);
+
+      // Stagger by position in the formation being built, or the one being taken apart
+      const formed = getShape(state).scattered ? from : next;
+      const point = new THREE.Vector3();
+      for (let i = 0; i < count; i++) {
+        delay[i] = staggerDelay(transition.stagger, point.fromArray(formed, i * 3), morph.sparkle[i]);
+      }
+      attributes.from.needsUpdate = true;
+      attributes.to.needsUpdate = true;
+      attributes.delay.needsUpdate = true;
+
+      morph.fromFloat = THREE.MathUtils.lerp(
+        morph.fromFloat,
+        floatIntensity(morph.target),
+        transitionProgress(morph.transition, elapsed, 0)
+      );
+      morph.target = state;
+      morph.transition = transition;
+      morph.startedAt = now;
+    }
+
+    const { duration } = morph.transition;
+    uniforms.uProgress.value = duration > 0 ? (now - morph.startedAt) / duration : 1;
+    uniforms.uStagger.value = staggerWindow(morph.transition);
+    uniforms.uEasing.value = easingIndex(morph.transition.easing);
+    uniforms.uFloatFrom.value = morph.fromFloat * motionScale;
+    uniforms.uFloatTo.value = floatIntensity(morph.target) * motionScale;
+    uniforms.uTime.value = now;
+    uniforms.uScale.value = scale;
+  });
+
+  return { attributes, uniforms, morph };
+};
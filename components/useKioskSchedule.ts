@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { KioskConfig } from '../types';
+import { kioskScheduleAt, KioskSchedule } from '../utils/kiosk';
+
+// How often the clock is checked against the programme
+const CHECK_MS = 30000;
+
+// The kiosk programme's brightness and lights-off state, kept up to date
+// with the clock. Only re-renders when either changes.
+export const useKioskSchedule = (kiosk: KioskConfig): KioskSchedule => {
+  const [schedule, setSchedule] = useState(() => kioskScheduleAt(kiosk, new Date()));
+
+  useEffect(() => {
+    const check = () => {
+      const next = kioskScheduleAt(kiosk, new Date());
+      setSchedule((prev) =>
+        prev.brightness === next.brightness && prev.lightsOff === next.lightsOff ? prev : next
+      );
+    };
+    check();
+    const intervalId = setInterval(check, CHECK_MS);
+    return () => clearInterval(intervalId);
+  }, [kiosk]);
+
+  return schedule;
+};
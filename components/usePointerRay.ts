@@ -0,0 +1,53 @@
+import { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { useFrame, useThree } from '@react-three/fiber';
+
+// Runs before the scene's own frame callbacks, so they see this frame's ray
+const RAY_PRIORITY = -2;
+
+/**
+ * The ray from the camera through the pointer, refreshed every frame, or
+ * null while the pointer is outside the canvas (or a finger is lifted).
+ */
+export const usePointerRay = () => {
+  const element = useThree((s) => s.gl.domElement);
+  const insideRef = useRef(false);
+  const rayRef = useRef<THREE.Ray | null>(null);
+  const raycaster = useRef(new THREE.Raycaster());
+
+  useEffect(() => {
+    const enter = () => {
+      insideRef.current = true;
+    };
+    const leave = () => {
+      insideRef.current = false;
+    };
+    // Touch has no hover: the field only acts while the finger is down
+    const up = (e: PointerEvent) => {
+      if (e.pointerType === 'touch') leave();
+    };
+    element.addEventListener('pointermove', enter);
+    element.addEventListener('pointerdown', enter);
+    element.addEventListener('pointerup', up);
+    element.addEventListener('pointerleave', leave);
+    element.addEventListener('pointercancel', leave);
+    return () => {
+      element.removeEventListener('pointermove', enter);
+      element.removeEventListener('pointerdown', enter);
+      element.removeEventListener('pointerup', up);
+      element.removeEventListener('pointerleave', leave);
+      element.removeEventListener('pointercancel', leave);
+    };
+  }, [element]);
+
+  useFrame(({ pointer, camera }) => {
+    if (!insideRef.current) {
+      rayRef.current = null;
+      return;
+    }
+    raycaster.current.setFromCamera(pointer, camera);
+    rayRef.current = raycaster.current.ray;
+  }, RAY_PRIORITY);
+
+  return rayRef;
+};
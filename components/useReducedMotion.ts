@@ -0,0 +1,21 @@
+import { useSyncExternalStore } from 'react';
+
+// Share of the usual drift, wobble, spin and pulsing kept when the viewer's
+// system asks for reduced motion
+export const REDUCED_MOTION_SCALE = 0.2;
+
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+const subscribe = (onChange: () => void) => {
+  const media = window.matchMedia(QUERY);
+  media.addEventListener('change', onChange);
+  return () => media.removeEventListener('change', onChange);
+};
+
+// Follows the `prefers-reduced-motion` setting, including changes made while
+// the page is open
+export const useReducedMotion = (): boolean =>
+  useSyncExternalStore(subscribe, () => window.matchMedia(QUERY).matches, () => false);
+
+// Multiplier for ambient motion: 1, or REDUCED_MOTION_SCALE
+export const useMotionScale = (): number => (useReducedMotion() ? REDUCED_MOTION_SCALE : 1);
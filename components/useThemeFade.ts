@@ -0,0 +1,56 @@
+import { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { useFrame, useThree } from '@react-three/fiber';
+
+// Seconds a theme change takes to blend in
+export const THEME_FADE_SECONDS = 1.5;
+
+// Eased share of the fade done `elapsed` seconds in. A rewound clock (video
+// export starts at 0) counts as done.
+const fadeProgress = (elapsed: number) =>
+  elapsed < 0 ? 1 : THREE.MathUtils.smoothstep(elapsed / THEME_FADE_SECONDS, 0, 1);
+
+/**
+ * A colour that blends to `target` over THEME_FADE_SECONDS whenever it
+ * changes, instead of jumping. The returned Color is updated every frame
+ * before the caller's own useFrame runs, so copy it onto materials and
+ * lights there.
+ */
+export const useFadedColor = (target: string): THREE.Color => {
+  const clock = useThree((s) => s.clock);
+  const fade = useMemo(
+    () => ({ from: new THREE.Color(target), to: new THREE.Color(target), current: new THREE.Color(target), startedAt: 0 }),
+    // Later targets fade in below
+    []
+  );
+
+  useEffect(() => {
+    fade.from.copy(fade.current);
+    fade.to.set(target);
+    fade.startedAt = clock.elapsedTime;
+  }, [target, fade, clock]);
+
+  useFrame(({ clock }) => {
+    fade.current.lerpColors(fade.from, fade.to, fadeProgress(clock.elapsedTime - fade.startedAt));
+  });
+
+  return fade.current;
+};
+
+// Same as useFadedColor for a number; read `.value` in useFrame
+export const useFadedNumber = (target: number): { value: number } => {
+  const clock = useThree((s) => s.clock);
+  const fade = useMemo(() => ({ from: target, to: target, value: target, startedAt: 0 }), []);
+
+  useEffect(() => {
+    fade.from = fade.value;
+    fade.to = target;
+    fade.startedAt = clock.elapsedTime;
+  }, [target, fade, clock]);
+
+  useFrame(({ clock }) => {
+    fade.value = THREE.MathUtils.lerp(fade.from, fade.to, fadeProgress(clock.elapsedTime - fade.startedAt));
+  });
+
+  return fade;
+};
@@ -0,0 +1,281 @@
+import { SceneConfig, TreeState } from '../types';
+
+// Opened by clicking a gift box
+const GIFT_GREETINGS = [
+  'Merry Christmas!',
+  'Happy New Year!',
+  'Season’s greetings from Passion Coffee',
+  'May your cup always be full',
+  'Peace, joy and good coffee',
+];
+
+// The signature "Arix" look. Clients get their own tree by passing a
+// different SceneConfig to <Scene /> instead of forking Scene.tsx.
+export const defaultSceneConfig: SceneConfig = {
+  seed: 20211225,
+  quality: 'auto',
+  theme: 'classicGold',
+  background: '#000500',
+  camera: {
+    position: [0, 0, 25],
+    fov: 45,
+    director: {
+      enabled: true,
+      shots: {
+        [TreeState.TREE_SHAPE]: 'starCloseUp',
+        [TreeState.HEART]: 'wide',
+        [TreeState.STAR]: 'lowHero',
+        [TreeState.GALAXY]: 'wide',
+        [TreeState.DIGITS]: 'wide',
+        [TreeState.SPHERE]: 'lowHero',
+        [TreeState.SCATTERED]: 'flyThrough',
+      },
+      blendBack: 2,
+    },
+  },
+  environmentPreset: 'city', // Crucial for Gold reflections
+
+  groups: [
+    // 1. Golden Spheres (Original High Gloss) - Reduced count to share with Velvet
+    {
+      name: 'Gold Spheres',
+      count: 350,
+      color: '#FFD700', // Gold
+      metalness: 1,
+      roughness: 0.1,
+      geometryType: 'sphere',
+      scaleMultiplier: 0.8,
+      envMapIntensity: 2,
+      clickActions: ['pop', 'chime'],
+    },
+    // 1b. Velvet Gold Spheres - Matte, Fabric-like finish
+    {
+      name: 'Velvet Gold Spheres',
+      count: 250,
+      color: '#FDB931', // Richer, warmer gold for velvet
+      metalness: 0.1, // Low metalness makes it look like fabric/matte
+      roughness: 1.0, // High roughness for velvet/felt texture
+      geometryType: 'sphere',
+      scaleMultiplier: 0.8,
+      envMapIntensity: 0.2, // Very low reflection
+      clickActions: ['pop', 'chime'],
+    },
+    // 2. Emerald Gems - Shiny Dark Green (Ink Green)
+    {
+      name: 'Emerald Gems',
+      count: 200,
+      color: '#004225', // Deep Ink Green
+      metalness: 0.8,
+      roughness: 0.1,
+      geometryType: 'sphere',
+      scaleMultiplier: 1.0,
+      emissiveIntensity: 0.2,
+      envMapIntensity: 3.0,
+      clickActions: ['pop', 'chime'],
+    },
+    // 3. Silver Spheres
+    {
+      name: 'Silver Spheres',
+      count: 200,
+      color: '#E0E0E0', // Bright Silver
+      metalness: 1.0,
+      roughness: 0.1,
+      geometryType: 'sphere',
+      scaleMultiplier: 0.5,
+      envMapIntensity: 2.5,
+      clickActions: ['pop', 'chime'],
+    },
+    // 3b. Matte Red Spheres - Frosted/Ceramic look
+    {
+      name: 'Matte Red Spheres',
+      count: 150,
+      color: '#D32F2F', // Matte Red
+      metalness: 0.0, // Non-metallic
+      roughness: 0.8, // Frosted surface
+      geometryType: 'sphere',
+      scaleMultiplier: 0.9,
+      envMapIntensity: 0.5,
+      clickActions: ['pop', 'chime'],
+    },
+    // 4. Candy Canes
+    {
+      name: 'Candy Canes',
+      count: 100,
+      color: '#FFFFFF',
+      metalness: 0.1,
+      roughness: 0.4,
+      geometryType: 'candyCane',
+      scaleMultiplier: 1.5,
+      envMapIntensity: 1.0,
+      clickActions: ['spin'],
+    },
+    // 5. Gift Boxes (Red, Orange, Blue)
+    {
+      name: 'Red Gifts',
+      count: 50,
+      color: '#C41E3A', // Cardinal Red
+      metalness: 0.5,
+      roughness: 0.2,
+      geometryType: 'giftBox',
+      scaleMultiplier: 0.9,
+      envMapIntensity: 1.5,
+      clickActions: ['pop', 'greeting'],
+      greetings: GIFT_GREETINGS,
+    },
+    {
+      name: 'Orange Gifts',
+      count: 40,
+      color: '#E65100', // Deep Orange / Bronze
+      metalness: 0.6,
+      roughness: 0.2,
+      geometryType: 'giftBox',
+      scaleMultiplier: 0.85,
+      envMapIntensity: 1.5,
+      clickActions: ['pop', 'greeting'],
+      greetings: GIFT_GREETINGS,
+    },
+    {
+      name: 'Blue Gifts',
+      count: 40,
+      color: '#1A237E', // Royal/Midnight Blue
+      metalness: 0.6,
+      roughness: 0.2,
+      geometryType: 'giftBox',
+      scaleMultiplier: 0.85,
+      envMapIntensity: 1.5,
+      clickActions: ['pop', 'greeting'],
+      greetings: GIFT_GREETINGS,
+    },
+  ],
+
+  // Cinematic Lighting
+  lights: [
+    { type: 'ambient', intensity: 0.2, color: '#002200' },
+    {
+      type: 'spot',
+      position: [10, 20, 10],
+      angle: 0.5,
+      penumbra: 1,
+      intensity: 15,
+      color: '#ffd700',
+      castShadow: true,
+    },
+    { type: 'point', position: [-10, 5, -10], intensity: 5, color: '#00ff88' },
+    { type: 'point', position: [0, -10, 5], intensity: 5, color: '#ff0044' },
+  ],
+
+  topStar: {
+    enabled: true,
+    color: '#ffdd00',
+    emissive: '#ffaa00',
+    lightColor: '#ffaa00',
+    lightIntensity: 20,
+  },
+
+  logo: {
+    enabled: true,
+    lineGap: 0.5,
+    lines: [
+      // 1. Chinese Characters - Separate Elements - Glowing White
+      { text: '珀森咖啡', size: 1.05, material: 'glow', fontWeight: 'bold', splitCharacters: true, letterSpacing: 0.55 },
+      // 2. English Title
+      { text: 'Passion Coffee Shop', size: 0.55, material: 'glow', fontWeight: 'bold' },
+      // 3. Subtitle
+      { text: 'EST2021 YUNFU', size: 0.41, material: 'glow' },
+    ],
+  },
+
+  // Spelled out after the opening tree, then the tree reforms
+  message: {
+    enabled: true,
+    text: 'Merry Christmas',
+    hold: 5,
+  },
+
+  // Signage: bright while the shop is open, dimmed after, dark overnight
+  kiosk: {
+    enabled: false,
+    openingHours: { start: '09:00', end: '21:00' },
+    openBrightness: 1,
+    nightBrightness: 0.4,
+    lightsOff: { start: '23:00', end: '07:00' },
+    fadeSeconds: 10,
+    idleSeconds: 30,
+    attractSeconds: 180,
+    shiftPixels: 12,
+    logoShift: 0.4,
+    shiftPeriodMinutes: 90,
+  },
+
+  // Fairy lights: a warm twinkling strand and a coloured chaser
+  stringLights: {
+    enabled: true,
+    strands: [
+      {
+        bulbs: 180,
+        turns: 7,
+        phase: 0,
+        bulbSize: 0.12,
+        colors: ['#FFE9A8'],
+        pattern: 'twinkle',
+        speed: 1,
+        intensity: 4,
+      },
+      {
+        bulbs: 120,
+        turns: 5,
+        phase: 0.5,
+        bulbSize: 0.14,
+        colors: ['#FF3B3B', '#FFD700', '#3BFF6B', '#3B9BFF'],
+        pattern: 'chase',
+        speed: 1,
+        intensity: 3.5,
+      },
+    ],
+  },
+
+  // Light breeze from the left with the odd gust; snow builds up on the tree
+  snow: {
+    enabled: true,
+    count: 2000,
+    fallSpeed: 1,
+    wind: { velocity: [0.6, 0, 0.1], gustStrength: 3, gustInterval: 9, turbulence: 0.6 },
+    accumulation: { enabled: true, maxFlakes: 1200, buildUpSeconds: 20, burstSpeed: 14 },
+  },
+
+  starfield: {
+    enabled: true,
+    radius: 100,
+    depth: 50,
+    count: 5000,
+    factor: 4,
+    saturation: 0,
+    speed: 1,
+  },
+
+  // Floor Reflections only visible near bottom
+  contactShadows: {
+    enabled: true,
+    opacity: 0.5,
+    scale: 30,
+    blur: 2,
+    far: 10,
+    resolution: 256,
+  },
+
+  // Sweeping the pointer through the tree nudges the ornaments
+  pointerField: {
+    enabled: true,
+    radius: 2.5,
+    strength: 80,
+    stiffness: 30,
+    damping: 6,
+  },
+
+  // Post Processing for the "Dreamy/Luxurious" look
+  postProcessing: {
+    bloom: { enabled: true, luminanceThreshold: 0.8, intensity: 1.2, radius: 0.4 },
+    noise: { enabled: true, opacity: 0.02 },
+    vignette: { enabled: true, offset: 0.1, darkness: 1.1 },
+  },
+};
@@ -0,0 +1,65 @@
+import { Timeline, TimelineStep, TreeState, MorphTarget } from '../types';
+
+// Formations the default show visits, in order
+export const DEFAULT_FORMATIONS: MorphTarget[] = [
+  TreeState.TREE_SHAPE,
+  TreeState.HEART,
+  TreeState.STAR,
+  TreeState.GALAXY,
+  TreeState.DIGITS,
+  TreeState.SPHERE,
+];
+
+// Assemble a formation and hold it for 8 seconds in total, then burst into
+// the scatter and drift for ~2 seconds before the next one. The tree winds
+// up in a spiral, other formations build from the bottom up, and every
+// scatter sparkles apart at random. Camera work comes from the scene's
+// camera director.
+const formationSteps = (formation: MorphTarget): TimelineStep[] => [
+  {
+    state: formation,
+    transition: 2,
+    hold: 6,
+    easing: 'easeInOutCubic',
+    stagger: formation === TreeState.TREE_SHAPE ? 'spiral' : 'bottomUp',
+    effects: ['starFlare'],
+  },
+  {
+    state: TreeState.SCATTERED,
+    transition: 2,
+    hold: 2,
+    easing: 'back',
+    stagger: 'random',
+    effects: ['bloomPulse'],
+  },
+];
+
+export const defaultTimeline: Timeline = {
+  loop: true,
+  steps: DEFAULT_FORMATIONS.flatMap(formationSteps),
+};
+
+/**
+ * The show with a message after the opening tree: the ornaments fly from
+ * the tree into the text, hold it for `hold` seconds and reform the tree,
+ * then the show carries on as before.
+ */
+export const withMessage = (timeline: Timeline, message: MorphTarget, hold: number): Timeline => {
+  const treeIndex = timeline.steps.findIndex((step) => step.state === TreeState.TREE_SHAPE);
+  if (treeIndex < 0) return timeline;
+  const steps = [...timeline.steps];
+  steps.splice(
+    treeIndex + 1,
+    0,
+    {
+      state: message,
+      transition: 2.5,
+      hold,
+      easing: 'easeInOutCubic',
+      stagger: 'random',
+      effects: ['bloomPulse'],
+    },
+    timeline.steps[treeIndex]
+  );
+  return { ...timeline, steps };
+};
@@ -0,0 +1,98 @@
+import { QUALITY_TIERS, QualitySettings, QualityTier, SceneConfig } from '../types';
+
+// `high` renders the scene config as written; the others scale it
+export const QUALITY_PRESETS: Record<QualityTier, QualitySettings> = {
+  low: {
+    particles: 0.35,
+    snow: 0.2,
+    stars: 0.2,
+    detail: 0.35,
+    dpr: [0.75, 1],
+    shadows: false,
+    contactShadows: false,
+    bloom: false,
+    noise: false,
+  },
+  medium: {
+    particles: 0.6,
+    snow: 0.5,
+    stars: 0.5,
+    detail: 0.6,
+    dpr: [1, 1.5],
+    shadows: false,
+    contactShadows: true,
+    bloom: true,
+    noise: false,
+  },
+  high: {
+    particles: 1,
+    snow: 1,
+    stars: 1,
+    detail: 1,
+    dpr: [1, 2],
+    shadows: true,
+    contactShadows: true,
+    bloom: true,
+    noise: true,
+  },
+  ultra: {
+    particles: 1.5,
+    snow: 1.5,
+    stars: 1.5,
+    detail: 1.5,
+    dpr: [1.5, 2],
+    shadows: true,
+    contactShadows: true,
+    bloom: true,
+    noise: true,
+  },
+};
+
+// Where 'auto' starts before it has measured anything
+export const AUTO_START_TIER: QualityTier = 'high';
+
+// The tier `steps` away from `tier` (negative is cheaper), clamped to the ends
+export const stepQuality = (tier: QualityTier, steps: number): QualityTier => {
+  const index = QUALITY_TIERS.indexOf(tier) + steps;
+  return QUALITY_TIERS[Math.min(QUALITY_TIERS.length - 1, Math.max(0, index))];
+};
+
+const scaleCount = (count: number, factor: number) => Math.round(count * factor);
+
+// The scene config with a tier's counts and switches applied
+export const applyQuality = (config: SceneConfig, quality: QualitySettings): SceneConfig => ({
+  ...config,
+  groups: config.groups.map((group) => ({ ...group, count: scaleCount(group.count, quality.particles) })),
+  lights: config.lights.map((light) => ({ ...light, castShadow: light.castShadow && quality.shadows })),
+  stringLights: {
+    ...config.stringLights,
+    strands: config.stringLights.strands.map((strand) => ({
+      ...strand,
+      bulbs: scaleCount(strand.bulbs, quality.particles),
+    })),
+  },
+  snow: {
+    ...config.snow,
+    count: scaleCount(config.snow.count, quality.snow),
+    accumulation: {
+      ...config.snow.accumulation,
+      maxFlakes: scaleCount(config.snow.accumulation.maxFlakes, quality.snow),
+    },
+  },
+  starfield: { ...config.starfield, count: scaleCount(config.starfield.count, quality.stars) },
+  contactShadows: { ...config.contactShadows, enabled: config.contactShadows.enabled && quality.contactShadows },
+  postProcessing: {
+    ...config.postProcessing,
+    bloom: { ...config.postProcessing.bloom, enabled: config.postProcessing.bloom.enabled && quality.bloom },
+    noise: { ...config.postProcessing.noise, enabled: config.postProcessing.noise.enabled && quality.noise },
+  },
+});
+
+export const isQuality = (value: string): value is QualityTier | 'auto' =>
+  value === 'auto' || (QUALITY_TIERS as readonly string[]).includes(value);
+
+// `?quality=` from the page URL (a tier or 'auto'), if present and valid
+export const qualityFromUrl = (): QualityTier | 'auto' | undefined => {
+  const value = new URLSearchParams(window.location.search).get('quality');
+  return value && isQuality(value) ? value : undefined;
+};
@@ -0,0 +1,109 @@
+import { SceneConfig, ThemePreset } from '../types';
+
+export const THEME_PRESETS: ThemePreset[] = [
+  // The signature look: the default scene's own colours
+  {
+    id: 'classicGold',
+    label: 'Classic Gold',
+    background: '#000500',
+    palette: ['#FFD700', '#FDB931', '#004225', '#E0E0E0', '#D32F2F', '#FFFFFF', '#C41E3A', '#E65100', '#1A237E'],
+    accent: '#FFD700',
+    emissiveIntensity: 0.2,
+    lights: ['#002200', '#ffd700', '#00ff88', '#ff0044'],
+    lightIntensity: 1,
+    topStar: { color: '#ffdd00', emissive: '#ffaa00', lightColor: '#ffaa00' },
+    bloom: { intensity: 1.2, luminanceThreshold: 0.8 },
+  },
+  {
+    id: 'icySilverBlue',
+    label: 'Icy Silver-Blue',
+    background: '#01040c',
+    palette: ['#E8F1FF', '#B8D4F0', '#1E4E8C', '#FFFFFF', '#7FB3E6', '#F5FAFF', '#9EC9F5', '#C0C8D4', '#0D2A5C'],
+    accent: '#DDE8F5',
+    emissiveIntensity: 0.25,
+    lights: ['#001020', '#cfe8ff', '#66ccff', '#4466ff'],
+    lightIntensity: 1,
+    topStar: { color: '#f0f8ff', emissive: '#9fd4ff', lightColor: '#bfe3ff' },
+    bloom: { intensity: 1.4, luminanceThreshold: 0.75 },
+  },
+  {
+    id: 'roseGold',
+    label: 'Rose Gold',
+    background: '#0a0306',
+    palette: ['#E8B4A0', '#D99A8A', '#6B2737', '#F4E1D9', '#C97B84', '#FFF0F0', '#B76E79', '#E0A899', '#4A1C2B'],
+    accent: '#F2C1AE',
+    emissiveIntensity: 0.22,
+    lights: ['#1a0508', '#ffc9b0', '#ff9eb5', '#ff6f91'],
+    lightIntensity: 1,
+    topStar: { color: '#ffd6c9', emissive: '#ff9f8a', lightColor: '#ffb8a0' },
+    bloom: { intensity: 1.3, luminanceThreshold: 0.8 },
+  },
+  {
+    id: 'traditional',
+    label: 'Traditional Red-Green',
+    background: '#020a02',
+    palette: ['#C8102E', '#A50E25', '#0B6623', '#F5F5F5', '#D4AF37', '#FFFFFF', '#C8102E', '#0B6623', '#D4AF37'],
+    accent: '#D4AF37',
+    emissiveIntensity: 0.2,
+    lights: ['#051a05', '#fff1cc', '#00cc55', '#ff2233'],
+    lightIntensity: 1,
+    topStar: { color: '#ffe066', emissive: '#ffb300', lightColor: '#ffcc33' },
+    bloom: { intensity: 1.1, luminanceThreshold: 0.8 },
+  },
+  // Deep blues and violets with a stronger glow
+  {
+    id: 'midnight',
+    label: 'Midnight',
+    background: '#000006',
+    palette: ['#2B3A8C', '#1C2566', '#4B2C82', '#8FA3D9', '#3D5AFE', '#E0E6FF', '#283593', '#512DA8', '#0D1440'],
+    accent: '#A8B8FF',
+    emissiveIntensity: 0.35,
+    lights: ['#000010', '#8899ff', '#6a4cff', '#00b3ff'],
+    lightIntensity: 0.8,
+    topStar: { color: '#e6ecff', emissive: '#7f9cff', lightColor: '#9fb4ff' },
+    bloom: { intensity: 1.6, luminanceThreshold: 0.7 },
+  },
+];
+
+export const getTheme = (id: string): ThemePreset => {
+  const theme = THEME_PRESETS.find((t) => t.id === id);
+  if (!theme) {
+    throw new Error(`Unknown theme "${id}". Available: ${THEME_PRESETS.map((t) => t.id).join(', ')}`);
+  }
+  return theme;
+};
+
+export const hasTheme = (id: string) => THEME_PRESETS.some((t) => t.id === id);
+
+const nth = <T>(list: T[], i: number, fallback: T) => (list.length > 0 ? list[i % list.length] : fallback);
+
+// The scene config recoloured by a theme. Shapes, counts and materials'
+// finish (metalness, roughness) stay as configured.
+export const applyTheme = (config: SceneConfig, theme: ThemePreset): SceneConfig => ({
+  ...config,
+  background: theme.background,
+  groups: config.groups.map((group, i) => ({
+    ...group,
+    color: nth(theme.palette, i, group.color),
+    accentColor: theme.accent,
+    emissiveIntensity: theme.emissiveIntensity,
+  })),
+  lights: config.lights.map((light, i) => ({
+    ...light,
+    color: nth(theme.lights, i, light.color),
+    intensity: light.intensity * theme.lightIntensity,
+  })),
+  topStar: { ...config.topStar, ...theme.topStar },
+  postProcessing: {
+    ...config.postProcessing,
+    bloom: { ...config.postProcessing.bloom, ...theme.bloom },
+  },
+});
+
+// The config with its theme's colours written in and the theme dropped, so
+// the colours can be edited one by one
+export const bakeTheme = (config: SceneConfig): SceneConfig => {
+  if (!config.theme) return config;
+  const { theme, ...baked } = applyTheme(config, getTheme(config.theme));
+  return baked;
+};
@@ -0,0 +1,379 @@
+import {
+  SceneConfig,
+  ParticleGroupConfig,
+  LightConfig,
+  LIGHT_TYPES,
+  ENVIRONMENT_PRESETS,
+  LOGO_MATERIALS,
+  ORNAMENT_ACTIONS,
+  BLINK_PATTERNS,
+  QUALITY_TIERS,
+} from '../types';
+import { hasShape } from '../shapes';
+import { hasShot } from '../camera';
+import { hasGeometry } from '../geometries';
+import { THEME_PRESETS, hasTheme } from './themes';
+import { isClockTime } from '../utils/kiosk';
+
+// Thrown when a scene definition fails validation.
+// `issues` holds one human readable line per bad field, e.g.
+// `groups[3].count: must be a non-negative integer (got -5)`.
+export class SceneConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid scene config:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'SceneConfigError';
+    this.issues = issues;
+  }
+}
+
+type Obj = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Obj =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) => JSON.stringify(value) ?? String(value);
+
+const isHexColor = (value: unknown) => typeof value === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+const HEX_COLOR_MESSAGE = 'must be a hex colour like "#ffd700"';
+
+// Small cursor over the raw input that records issues instead of throwing,
+// so a single pass reports every bad field at once.
+class Validator {
+  readonly issues: string[] = [];
+
+  fail(path: string, message: string, value: unknown) {
+    this.issues.push(`${path}: ${message} (got ${describe(value)})`);
+  }
+
+  object(value: unknown, path: string): Obj | null {
+    if (!isObject(value)) {
+      this.fail(path, 'must be an object', value);
+      return null;
+    }
+    return value;
+  }
+
+  number(obj: Obj, key: string, path: string, opts: { min?: number; max?: number; integer?: boolean; optional?: boolean } = {}) {
+    const value = obj[key];
+    const at = `${path}.${key}`;
+    if (value === undefined && opts.optional) return;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(at, 'must be a finite number', value);
+      return;
+    }
+    if (opts.integer && !Number.isInteger(value)) {
+      this.fail(at, 'must be an integer', value);
+    }
+    if (opts.min !== undefined && value < opts.min) {
+      this.fail(at, opts.min === 0 ? 'must not be negative' : `must be >= ${opts.min}`, value);
+    }
+    if (opts.max !== undefined && value > opts.max) {
+      this.fail(at, `must be <= ${opts.max}`, value);
+    }
+  }
+
+  boolean(obj: Obj, key: string, path: string, optional = false) {
+    const value = obj[key];
+    if (value === undefined && optional) return;
+    if (typeof value !== 'boolean') this.fail(`${path}.${key}`, 'must be true or false', value);
+  }
+
+  color(obj: Obj, key: string, path: string, optional = false) {
+    const value = obj[key];
+    if (value === undefined && optional) return;
+    if (!isHexColor(value)) this.fail(`${path}.${key}`, HEX_COLOR_MESSAGE, value);
+  }
+
+  string(obj: Obj, key: string, path: string, optional = false) {
+    const value = obj[key];
+    if (value === undefined && optional) return;
+    if (typeof value !== 'string') this.fail(`${path}.${key}`, 'must be a string', value);
+  }
+
+  oneOf(obj: Obj, key: string, path: string, allowed: readonly string[], label: string) {
+    const value = obj[key];
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      this.fail(`${path}.${key}`, `unknown ${label}, expected one of ${allowed.join(', ')}`, value);
+    }
+  }
+
+  vec3(obj: Obj, key: string, path: string, optional = false) {
+    const value = obj[key];
+    if (value === undefined && optional) return;
+    if (
+      !Array.isArray(value) ||
+      value.length !== 3 ||
+      !value.every((v) => typeof v === 'number' && Number.isFinite(v))
+    ) {
+      this.fail(`${path}.${key}`, 'must be an [x, y, z] array of numbers', value);
+    }
+  }
+}
+
+const validateGroup = (v: Validator, raw: unknown, path: string) => {
+  const group = v.object(raw, path);
+  if (!group) return;
+  v.string(group, 'name', path, true);
+  v.number(group, 'count', path, { min: 0, integer: true });
+  v.color(group, 'color', path);
+  v.number(group, 'metalness', path, { min: 0, max: 1 });
+  v.number(group, 'roughness', path, { min: 0, max: 1 });
+  if (typeof group.geometryType !== 'string' || !hasGeometry(group.geometryType)) {
+    v.fail(`${path}.geometryType`, 'must be a registered geometry type', group.geometryType);
+  }
+  v.number(group, 'scaleMultiplier', path, { min: 0 });
+  v.number(group, 'emissiveIntensity', path, { min: 0, optional: true });
+  v.number(group, 'envMapIntensity', path, { min: 0, optional: true });
+  v.color(group, 'accentColor', path, true);
+  const { clickActions, greetings } = group;
+  if (
+    clickActions !== undefined &&
+    !(Array.isArray(clickActions) && clickActions.every((action) => ORNAMENT_ACTIONS.includes(action)))
+  ) {
+    v.fail(`${path}.clickActions`, `must be an array of ${ORNAMENT_ACTIONS.join(', ')}`, clickActions);
+  }
+  if (greetings !== undefined && !(Array.isArray(greetings) && greetings.every((g) => typeof g === 'string'))) {
+    v.fail(`${path}.greetings`, 'must be an array of strings', greetings);
+  }
+};
+
+const validateLight = (v: Validator, raw: unknown, path: string) => {
+  const light = v.object(raw, path);
+  if (!light) return;
+  v.oneOf(light, 'type', path, LIGHT_TYPES, 'light type');
+  v.color(light, 'color', path);
+  v.number(light, 'intensity', path, { min: 0 });
+  v.vec3(light, 'position', path, light.type === 'ambient');
+  v.number(light, 'angle', path, { min: 0, max: Math.PI / 2, optional: true });
+  v.number(light, 'penumbra', path, { min: 0, max: 1, optional: true });
+  v.number(light, 'distance', path, { min: 0, optional: true });
+  v.number(light, 'decay', path, { min: 0, optional: true });
+  v.boolean(light, 'castShadow', path, true);
+};
+
+const validateLogoLine = (v: Validator, raw: unknown, path: string) => {
+  const line = v.object(raw, path);
+  if (!line) return;
+  if ((line.text === undefined) === (line.image === undefined)) {
+    v.fail(path, 'needs exactly one of "text" or "image"', { text: line.text, image: line.image });
+  }
+  v.string(line, 'text', path, true);
+  v.string(line, 'image', path, true);
+  v.number(line, 'size', path, { min: 0 });
+  v.oneOf(line, 'material', path, LOGO_MATERIALS, 'logo material');
+  v.color(line, 'color', path, true);
+  v.string(line, 'fontFamily', path, true);
+  v.string(line, 'fontWeight', path, true);
+  v.boolean(line, 'splitCharacters', path, true);
+  v.number(line, 'letterSpacing', path, { optional: true });
+};
+
+const validateStrand = (v: Validator, raw: unknown, path: string) => {
+  const strand = v.object(raw, path);
+  if (!strand) return;
+  v.number(strand, 'bulbs', path, { min: 2, integer: true });
+  v.number(strand, 'turns', path, { min: 0 });
+  v.number(strand, 'phase', path);
+  v.number(strand, 'bulbSize', path, { min: 0 });
+  if (!Array.isArray(strand.colors) || strand.colors.length === 0) {
+    v.fail(`${path}.colors`, 'must be a non-empty array of colours', strand.colors);
+  } else {
+    strand.colors.forEach((color, i) => {
+      if (!isHexColor(color)) v.fail(`${path}.colors[${i}]`, HEX_COLOR_MESSAGE, color);
+    });
+  }
+  v.oneOf(strand, 'pattern', path, BLINK_PATTERNS, 'blink pattern');
+  v.number(strand, 'speed', path, { min: 0 });
+  v.number(strand, 'intensity', path, { min: 0 });
+};
+
+const validateWindow = (v: Validator, raw: unknown, path: string) => {
+  const window = v.object(raw, path);
+  if (!window) return;
+  ['start', 'end'].forEach((key) => {
+    if (!isClockTime(window[key])) v.fail(`${path}.${key}`, 'must be a 24-hour time like "09:30"', window[key]);
+  });
+};
+
+const validateSection = (
+  v: Validator,
+  root: Obj,
+  key: string,
+  check: (section: Obj, path: string) => void
+) => {
+  const section = v.object(root[key], key);
+  if (section) check(section, key);
+};
+
+/**
+ * Checks an untrusted scene definition (e.g. parsed from a client's JSON file)
+ * and returns it typed as a SceneConfig. Throws a SceneConfigError listing
+ * every invalid field.
+ */
+export const validateSceneConfig = (input: unknown): SceneConfig => {
+  const v = new Validator();
+  const root = v.object(input, 'config');
+  if (!root) throw new SceneConfigError(v.issues);
+
+  v.number(root, 'seed', 'config', { min: 0, max: 0xffffffff, integer: true });
+  v.oneOf(root, 'quality', 'config', [...QUALITY_TIERS, 'auto'], 'quality tier');
+  if (root.theme !== undefined && (typeof root.theme !== 'string' || !hasTheme(root.theme))) {
+    v.fail('config.theme', `unknown theme, expected one of ${THEME_PRESETS.map((t) => t.id).join(', ')}`, root.theme);
+  }
+  v.color(root, 'background', 'config');
+  v.oneOf(root, 'environmentPreset', 'config', ENVIRONMENT_PRESETS, 'environment preset');
+
+  validateSection(v, root, 'camera', (camera, path) => {
+    v.vec3(camera, 'position', path);
+    v.number(camera, 'fov', path, { min: 1, max: 179 });
+    const director = v.object(camera.director, `${path}.director`);
+    if (director) {
+      v.boolean(director, 'enabled', `${path}.director`);
+      v.number(director, 'blendBack', `${path}.director`, { min: 0 });
+      const shots = v.object(director.shots, `${path}.director.shots`);
+      Object.entries(shots ?? {}).forEach(([state, shot]) => {
+        const at = `${path}.director.shots.${state}`;
+        if (!hasShape(state)) v.fail(at, 'must be keyed by a registered formation', state);
+        if (typeof shot !== 'string' || !hasShot(shot)) v.fail(at, 'must be a registered camera shot', shot);
+      });
+    }
+  });
+
+  if (!Array.isArray(root.groups)) {
+    v.fail('groups', 'must be an array', root.groups);
+  } else {
+    (root.groups as ParticleGroupConfig[]).forEach((group, i) => validateGroup(v, group, `groups[${i}]`));
+  }
+
+  if (!Array.isArray(root.lights)) {
+    v.fail('lights', 'must be an array', root.lights);
+  } else {
+    (root.lights as LightConfig[]).forEach((light, i) => validateLight(v, light, `lights[${i}]`));
+  }
+
+  validateSection(v, root, 'topStar', (star, path) => {
+    v.boolean(star, 'enabled', path);
+    v.color(star, 'color', path);
+    v.color(star, 'emissive', path);
+    v.color(star, 'lightColor', path);
+    v.number(star, 'lightIntensity', path, { min: 0 });
+  });
+
+  validateSection(v, root, 'logo', (logo, path) => {
+    v.boolean(logo, 'enabled', path);
+    v.number(logo, 'lineGap', path, { min: 0 });
+    if (!Array.isArray(logo.lines)) {
+      v.fail(`${path}.lines`, 'must be an array', logo.lines);
+    } else {
+      logo.lines.forEach((line, i) => validateLogoLine(v, line, `${path}.lines[${i}]`));
+    }
+  });
+
+  validateSection(v, root, 'message', (message, path) => {
+    v.boolean(message, 'enabled', path);
+    v.string(message, 'text', path);
+    // A switched-off message may be blank, e.g. while it is being rewritten
+    if (message.enabled === true && typeof message.text === 'string' && message.text.trim() === '') {
+      v.fail(`${path}.text`, 'must not be blank while the message is enabled', message.text);
+    }
+    v.string(message, 'fontFamily', path, true);
+    v.string(message, 'fontWeight', path, true);
+    v.number(message, 'hold', path, { min: 0 });
+  });
+
+  validateSection(v, root, 'kiosk', (kiosk, path) => {
+    v.boolean(kiosk, 'enabled', path);
+    validateWindow(v, kiosk.openingHours, `${path}.openingHours`);
+    v.number(kiosk, 'openBrightness', path, { min: 0, max: 1 });
+    v.number(kiosk, 'nightBrightness', path, { min: 0, max: 1 });
+    if (kiosk.lightsOff !== null) validateWindow(v, kiosk.lightsOff, `${path}.lightsOff`);
+    v.number(kiosk, 'fadeSeconds', path, { min: 0 });
+    v.number(kiosk, 'idleSeconds', path, { min: 1 });
+    v.number(kiosk, 'attractSeconds', path, { min: 10 });
+    v.number(kiosk, 'shiftPixels', path, { min: 0 });
+    v.number(kiosk, 'logoShift', path, { min: 0 });
+    v.number(kiosk, 'shiftPeriodMinutes', path, { min: 1 });
+  });
+
+  validateSection(v, root, 'stringLights', (lights, path) => {
+    v.boolean(lights, 'enabled', path);
+    if (!Array.isArray(lights.strands)) {
+      v.fail(`${path}.strands`, 'must be an array', lights.strands);
+    } else {
+      lights.strands.forEach((strand, i) => validateStrand(v, strand, `${path}.strands[${i}]`));
+    }
+  });
+
+  validateSection(v, root, 'snow', (snow, path) => {
+    v.boolean(snow, 'enabled', path);
+    v.number(snow, 'count', path, { min: 0, integer: true });
+    v.number(snow, 'fallSpeed', path, { min: 0 });
+    const wind = v.object(snow.wind, `${path}.wind`);
+    if (wind) {
+      v.vec3(wind, 'velocity', `${path}.wind`);
+      v.number(wind, 'gustStrength', `${path}.wind`, { min: 0 });
+      v.number(wind, 'gustInterval', `${path}.wind`, { min: 0.1 });
+      v.number(wind, 'turbulence', `${path}.wind`, { min: 0 });
+    }
+    const accumulation = v.object(snow.accumulation, `${path}.accumulation`);
+    if (accumulation) {
+      v.boolean(accumulation, 'enabled', `${path}.accumulation`);
+      v.number(accumulation, 'maxFlakes', `${path}.accumulation`, { min: 0, integer: true });
+      v.number(accumulation, 'buildUpSeconds', `${path}.accumulation`, { min: 0 });
+      v.number(accumulation, 'burstSpeed', `${path}.accumulation`, { min: 0 });
+    }
+  });
+
+  validateSection(v, root, 'starfield', (stars, path) => {
+    v.boolean(stars, 'enabled', path);
+    v.number(stars, 'radius', path, { min: 0 });
+    v.number(stars, 'depth', path, { min: 0 });
+    v.number(stars, 'count', path, { min: 0, integer: true });
+    v.number(stars, 'factor', path, { min: 0 });
+    v.number(stars, 'saturation', path, { min: 0, max: 1 });
+    v.number(stars, 'speed', path, { min: 0 });
+  });
+
+  validateSection(v, root, 'contactShadows', (shadows, path) => {
+    v.boolean(shadows, 'enabled', path);
+    v.number(shadows, 'opacity', path, { min: 0, max: 1 });
+    v.number(shadows, 'scale', path, { min: 0 });
+    v.number(shadows, 'blur', path, { min: 0 });
+    v.number(shadows, 'far', path, { min: 0 });
+    v.number(shadows, 'resolution', path, { min: 1, integer: true });
+  });
+
+  validateSection(v, root, 'pointerField', (field, path) => {
+    v.boolean(field, 'enabled', path);
+    v.number(field, 'radius', path, { min: 0 });
+    v.number(field, 'strength', path, { min: 0 });
+    v.number(field, 'stiffness', path, { min: 0 });
+    v.number(field, 'damping', path, { min: 0 });
+  });
+
+  validateSection(v, root, 'postProcessing', (post, path) => {
+    const bloom = v.object(post.bloom, `${path}.bloom`);
+    if (bloom) {
+      v.boolean(bloom, 'enabled', `${path}.bloom`);
+      v.number(bloom, 'luminanceThreshold', `${path}.bloom`, { min: 0 });
+      v.number(bloom, 'intensity', `${path}.bloom`, { min: 0 });
+      v.number(bloom, 'radius', `${path}.bloom`, { min: 0, max: 1 });
+    }
+    const noise = v.object(post.noise, `${path}.noise`);
+    if (noise) {
+      v.boolean(noise, 'enabled', `${path}.noise`);
+      v.number(noise, 'opacity', `${path}.noise`, { min: 0, max: 1 });
+    }
+    const vignette = v.object(post.vignette, `${path}.vignette`);
+    if (vignette) {
+      v.boolean(vignette, 'enabled', `${path}.vignette`);
+      v.number(vignette, 'offset', `${path}.vignette`, { min: 0 });
+      v.number(vignette, 'darkness', `${path}.vignette`, { min: 0 });
+    }
+  });
+
+  if (v.issues.length > 0) throw new SceneConfigError(v.issues);
+  return input as SceneConfig;
+};
@@ -0,0 +1,155 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import App, { TreeControls } from '../App';
+import { MorphTarget } from '../types';
+import { listShapes } from '../shapes';
+import { THEME_PRESETS } from '../config/themes';
+import { isQuality } from '../config/quality';
+import { parseSeed } from '../utils/random';
+import { findByName } from '../utils/names';
+import { SharedTree } from '../utils/shareUrl';
+
+// The host page sizes the element; this is just a sensible default
+const STYLE = `
+  :host { display: block; position: relative; height: 480px; }
+  :host([hidden]) { display: none; }
+  .root { position: absolute; inset: 0; }
+`;
+
+const findFormation = (name: string | null): MorphTarget | undefined => findByName(listShapes(), name);
+
+export interface TreeEventDetail {
+  state: MorphTarget;
+}
+
+/**
+ * `<arix-tree theme="classicGold" state="tree" auto>`: the whole scene as a
+ * custom element for other sites. Renders into its own shadow root, so the
+ * host page's styles don't reach in.
+ *
+ * Attributes (`theme`, `state` and `auto` are followed live; `seed` and
+ * `quality` are read when the element is connected):
+ * - `theme`: a theme id or label, or part of one (`gold`);
+ * - `state`: a formation id or label to open on, paused like a click;
+ * - `auto`: play the show, resuming after clicks. Without it the tree holds
+ *   whatever it shows;
+ * - `seed`, `quality`: as in `?seed=` and `?quality=`.
+ *
+ * Events: `statechange` when the tree starts morphing somewhere new, and
+ * `transitionend` once it has arrived, both with `detail.state`.
+ */
+export class ArixTreeElement extends HTMLElement {
+  static observedAttributes = ['theme', 'state', 'auto'];
+
+  private root: ReactDOM.Root | null = null;
+  private controls: TreeControls | null = null;
+  // Calls made before the scene is up, replayed once it is
+  private pending: ((controls: TreeControls) => void)[] = [];
+
+  connectedCallback() {
+    if (this.root) return;
+    const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open' });
+    shadow.innerHTML = `<style>${STYLE}</style><div class="root"></div>`;
+    this.root = ReactDOM.createRoot(shadow.querySelector('.root')!);
+    this.root.render(
+      <React.StrictMode>
+        <App
+          embedded
+          initial={this.initialTree()}
+          controlsRef={this.setControls}
+          onStateChange={(state) => this.emit('statechange', state)}
+          onTransitionEnd={(state) => this.emit('transitionend', state)}
+        />
+      </React.StrictMode>
+    );
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = null;
+    this.controls = null;
+  }
+
+  attributeChangedCallback(name: string, _previous: string | null, value: string | null) {
+    // Before connecting, initialTree() picks the attributes up
+    if (!this.root) return;
+    if (name === 'theme') {
+      const theme = findByName(THEME_PRESETS, value);
+      if (theme) this.withControls((controls) => controls.setTheme(theme));
+    } else if (name === 'state') {
+      const state = findFormation(value);
+      if (state) this.withControls((controls) => controls.setState(state));
+    } else if (name === 'auto') {
+      this.withControls((controls) => controls.setAutoMode(value !== null));
+    }
+  }
+
+  // The formation shown or being morphed into
+  get state(): MorphTarget | undefined {
+    return this.controls?.getState();
+  }
+
+  // Morphs into a formation, by id or label, and pauses the show there
+  setState(name: string) {
+    const state = findFormation(name);
+    if (!state) {
+      throw new Error(`Unknown formation "${name}". Registered: ${listShapes().map((s) => s.id).join(', ')}`);
+    }
+    this.withControls((controls) => controls.setState(state));
+  }
+
+  scatter() {
+    this.withControls((controls) => controls.scatter());
+  }
+
+  form() {
+    this.withControls((controls) => controls.form());
+  }
+
+  // Records one pass of the show and downloads it as a WebM
+  startRecording() {
+    this.withControls((controls) => controls.startRecording());
+  }
+
+  private initialTree(): SharedTree {
+    const tree: SharedTree = { autoMode: this.hasAttribute('auto') };
+    const theme = findByName(THEME_PRESETS, this.getAttribute('theme'));
+    if (theme) tree.theme = theme;
+    const state = findFormation(this.getAttribute('state'));
+    if (state) tree.state = state;
+    const seed = this.getAttribute('seed');
+    if (seed) tree.seed = parseSeed(seed);
+    const quality = this.getAttribute('quality');
+    if (quality && isQuality(quality)) tree.quality = quality;
+    return tree;
+  }
+
+  // Handed to App; React clears and sets it again whenever the controls change
+  private setControls = (controls: TreeControls | null) => {
+    this.controls = controls;
+    if (!controls) return;
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach((call) => call(controls));
+  };
+
+  private withControls(call: (controls: TreeControls) => void) {
+    if (this.controls) call(this.controls);
+    else this.pending.push(call);
+  }
+
+  private emit(type: 'statechange' | 'transitionend', state: MorphTarget) {
+    this.dispatchEvent(new CustomEvent<TreeEventDetail>(type, { detail: { state }, bubbles: true }));
+  }
+}
+
+// Registers the element; safe to call more than once
+export const defineArixTree = (tagName = 'arix-tree') => {
+  if (!customElements.get(tagName)) customElements.define(tagName, ArixTreeElement);
+};
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'arix-tree': ArixTreeElement;
+  }
+}
@@ -0,0 +1,9 @@
+// Entry of the library build (`npm run build:lib`). Importing it registers
+// <arix-tree>.
+import { defineArixTree } from './ArixTreeElement';
+
+export { ArixTreeElement, defineArixTree } from './ArixTreeElement';
+export type { TreeEventDetail } from './ArixTreeElement';
+export type { TreeControls } from '../App';
+
+defineArixTree();
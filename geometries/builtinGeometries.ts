@@ -0,0 +1,274 @@
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { GeometryContext, GeometryPart, registerGeometry } from './geometryRegistry';
+
+// Shiny metal for ribbons, caps, hooks and clappers, in the group's accent
+// colour (gold unless a theme says otherwise)
+const METAL: THREE.MeshStandardMaterialParameters = {
+  metalness: 1,
+  roughness: 0.1,
+  envMapIntensity: 3,
+  emissive: '#000000',
+};
+
+const ICING: THREE.MeshStandardMaterialParameters = {
+  color: '#FFFAF0',
+  metalness: 0,
+  roughness: 0.6,
+  emissive: '#000000',
+};
+
+const accent = (geometry: THREE.BufferGeometry): GeometryPart => ({ geometry, material: METAL, accent: true });
+
+const single =
+  (create: (detail: number) => THREE.BufferGeometry) =>
+  ({ detail }: GeometryContext): GeometryPart[] => [{ geometry: create(detail) }];
+
+// Segment count scaled by the quality tier's detail
+const segments = (count: number, detail: number, min = 3) => Math.max(min, Math.round(count * detail));
+
+// One geometry out of several pieces (the pieces are disposed)
+const merge = (pieces: THREE.BufferGeometry[]) => {
+  const merged = mergeGeometries(pieces);
+  pieces.forEach((piece) => piece.dispose());
+  return merged;
+};
+
+const lathe = (profile: [number, number][], radialSegments: number) =>
+  new THREE.LatheGeometry(
+    profile.map(([x, y]) => new THREE.Vector2(x, y)),
+    radialSegments
+  );
+
+registerGeometry({
+  id: 'sphere',
+  label: 'Sphere',
+  parts: single((detail) => new THREE.SphereGeometry(0.5, segments(32, detail), segments(32, detail, 2))),
+});
+registerGeometry({ id: 'box', label: 'Box', parts: single(() => new THREE.BoxGeometry(0.8, 0.8, 0.8)) });
+registerGeometry({
+  id: 'cylinder',
+  label: 'Cylinder',
+  parts: single((detail) => new THREE.CylinderGeometry(0.3, 0.3, 1, segments(16, detail))),
+});
+registerGeometry({ id: 'dodecahedron', label: 'Dodecahedron', parts: single(() => new THREE.DodecahedronGeometry(0.6, 0)) });
+
+// Box wrapped in two ribbons with a bow on top
+registerGeometry({
+  id: 'giftBox',
+  label: 'Gift box',
+  parts: ({ detail }) => {
+    const bow = new THREE.TorusKnotGeometry(0.15, 0.04, segments(64, detail), segments(8, detail));
+    bow.translate(0, 0.45, 0);
+    return [
+      { geometry: new THREE.BoxGeometry(0.8, 0.8, 0.8) },
+      accent(new THREE.BoxGeometry(0.82, 0.82, 0.2)),
+      accent(new THREE.BoxGeometry(0.2, 0.82, 0.82)),
+      accent(bow),
+    ];
+  },
+});
+
+// Red and white stripes, repeated along the tube so they spiral
+const createStripedTexture = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 64;
+  canvas.height = 64;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  // White background
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, 64, 64);
+
+  // Red diagonal stripes
+  ctx.fillStyle = '#ff0000';
+  ctx.beginPath();
+  for (let i = -64; i < 128; i += 16) {
+    ctx.moveTo(i, 0);
+    ctx.lineTo(i + 16, 64);
+    ctx.lineTo(i + 8, 64);
+    ctx.lineTo(i - 8, 0);
+  }
+  ctx.fill();
+
+  const tex = new THREE.CanvasTexture(canvas);
+  tex.wrapS = THREE.RepeatWrapping;
+  tex.wrapT = THREE.RepeatWrapping;
+  tex.repeat.set(1, 8);
+  return tex;
+};
+
+// A hooked tube; the stripes replace the group's colour
+registerGeometry({
+  id: 'candyCane',
+  label: 'Candy cane',
+  spinSpeed: 0.5,
+  parts: ({ detail }) => {
+    const curve = new THREE.CatmullRomCurve3([
+      new THREE.Vector3(0, -0.6, 0),
+      new THREE.Vector3(0, 0.4, 0),    // Straight up
+      new THREE.Vector3(0.1, 0.6, 0),  // Start curve
+      new THREE.Vector3(0.3, 0.5, 0),  // Peak
+      new THREE.Vector3(0.35, 0.3, 0)  // Tip down
+    ]);
+    return [
+      {
+        geometry: new THREE.TubeGeometry(curve, segments(32, detail), 0.08, segments(8, detail), false),
+        material: { color: '#ffffff', emissive: '#000000', emissiveIntensity: 0, map: createStripedTexture() },
+      },
+    ];
+  },
+});
+
+// Flared bell (the profile runs down the inside and back up the outside, so
+// it is solid from below) with a metal clapper and hanging loop
+registerGeometry({
+  id: 'bell',
+  label: 'Bell',
+  parts: ({ detail }) => {
+    const loop = new THREE.TorusGeometry(0.07, 0.02, segments(8, detail), segments(24, detail));
+    loop.translate(0, 0.5, 0);
+    const clapper = new THREE.SphereGeometry(0.09, segments(16, detail), segments(12, detail, 2));
+    clapper.translate(0, -0.34, 0);
+    return [
+      {
+        geometry: lathe([
+          [0.05, 0.3], [0.2, 0.15], [0.28, -0.1], [0.42, -0.36],
+          [0.5, -0.42], [0.54, -0.38],
+          [0.42, -0.2], [0.32, 0], [0.27, 0.2], [0.2, 0.34], [0.1, 0.42], [0, 0.44],
+        ], segments(24, detail)),
+      },
+      accent(clapper),
+      accent(loop),
+    ];
+  },
+});
+
+// Egg-shaped core covered in rows of scales pointing out and down
+const PINECONE_ROWS = 9;
+const PINECONE_SCALES_PER_ROW = 9;
+
+registerGeometry({
+  id: 'pinecone',
+  label: 'Pinecone',
+  parts: ({ detail }) => {
+    const radii = new THREE.Vector3(0.26, 0.44, 0.26);
+    const core = new THREE.SphereGeometry(1, segments(16, detail), segments(12, detail, 2));
+    const pieces: THREE.BufferGeometry[] = [core.scale(radii.x, radii.y, radii.z)];
+    const up = new THREE.Vector3(0, 1, 0);
+    const matrix = new THREE.Matrix4();
+    const rotation = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+
+    for (let row = 0; row < PINECONE_ROWS; row++) {
+      const phi = THREE.MathUtils.lerp(0.35, Math.PI - 0.25, row / (PINECONE_ROWS - 1));
+      const size = 0.5 + 0.5 * Math.sin(phi);
+      for (let i = 0; i < PINECONE_SCALES_PER_ROW; i++) {
+        const theta = ((i + (row % 2) * 0.5) / PINECONE_SCALES_PER_ROW) * Math.PI * 2;
+        const position = new THREE.Vector3(
+          Math.sin(phi) * Math.cos(theta),
+          Math.cos(phi),
+          Math.sin(phi) * Math.sin(theta)
+        ).multiply(radii);
+        const outward = position.clone().divide(radii).divide(radii).normalize();
+        const direction = outward.add(new THREE.Vector3(0, -0.6, 0)).normalize();
+        position.addScaledVector(direction, 0.05);
+        rotation.setFromUnitVectors(up, direction);
+        matrix.compose(position, rotation, scale.setScalar(size));
+        pieces.push(new THREE.ConeGeometry(0.1, 0.16, 5).applyMatrix4(matrix));
+      }
+    }
+    return [{ geometry: merge(pieces) }];
+  },
+});
+
+// Flat six-armed flake, two side branches per arm
+registerGeometry({
+  id: 'snowflake',
+  label: 'Snowflake',
+  parts: () => {
+    const pieces: THREE.BufferGeometry[] = [new THREE.CylinderGeometry(0.1, 0.1, 0.05, 6).rotateX(Math.PI / 2)];
+    for (let arm = 0; arm < 6; arm++) {
+      const angle = (arm / 6) * Math.PI * 2;
+      pieces.push(new THREE.BoxGeometry(0.06, 0.5, 0.04).translate(0, 0.25, 0).rotateZ(angle));
+      for (const side of [-1, 1]) {
+        pieces.push(
+          new THREE.BoxGeometry(0.04, 0.16, 0.04)
+            .translate(0, 0.08, 0)
+            .rotateZ((side * Math.PI) / 4)
+            .translate(0, 0.3, 0)
+            .rotateZ(angle)
+        );
+      }
+    }
+    return [{ geometry: merge(pieces) }];
+  },
+});
+
+// Teardrop bauble (point at the bottom) with a metal cap and hook
+const TEARDROP_STEPS = 32;
+
+registerGeometry({
+  id: 'teardrop',
+  label: 'Teardrop bauble',
+  parts: ({ detail }) => {
+    const profile = Array.from({ length: TEARDROP_STEPS + 1 }, (_, i): [number, number] => {
+      const t = (i / TEARDROP_STEPS) * Math.PI;
+      return [0.45 * Math.sin(t) * Math.sin(t / 2), -0.5 * Math.cos(t)];
+    });
+    const cap = new THREE.CylinderGeometry(0.08, 0.1, 0.1, segments(16, detail));
+    cap.translate(0, 0.5, 0);
+    const hook = new THREE.TorusGeometry(0.06, 0.015, segments(8, detail), segments(24, detail));
+    hook.translate(0, 0.61, 0);
+    return [
+      { geometry: lathe(profile, segments(32, detail)) },
+      accent(cap),
+      accent(hook),
+    ];
+  },
+});
+
+// Rounded bar between two points, as a flat outline
+const stadium = (x1: number, y1: number, x2: number, y2: number, r: number) => {
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+  const shape = new THREE.Shape();
+  shape.absarc(x2, y2, r, angle - Math.PI / 2, angle + Math.PI / 2, false);
+  shape.absarc(x1, y1, r, angle + Math.PI / 2, angle + (Math.PI * 3) / 2, false);
+  shape.closePath();
+  return shape;
+};
+
+// Cookie cut-out in the group's colour, with icing eyes and buttons
+const GINGERBREAD_DEPTH = 0.1;
+const GINGERBREAD_BEVEL = 0.03;
+
+registerGeometry({
+  id: 'gingerbread',
+  label: 'Gingerbread man',
+  parts: () => {
+    const outline = [
+      new THREE.Shape().absarc(0, 0.32, 0.16, 0, Math.PI * 2, false), // Head
+      stadium(0, 0.12, 0, -0.12, 0.17),                               // Body
+      stadium(-0.3, 0.12, 0.3, 0.12, 0.08),                           // Arms
+      stadium(-0.06, -0.15, -0.18, -0.45, 0.09),                      // Legs
+      stadium(0.06, -0.15, 0.18, -0.45, 0.09),
+    ];
+    const cookie = new THREE.ExtrudeGeometry(outline, {
+      depth: GINGERBREAD_DEPTH,
+      bevelEnabled: true,
+      bevelThickness: GINGERBREAD_BEVEL,
+      bevelSize: 0.02,
+      bevelSegments: 2,
+    });
+    cookie.translate(0, 0, -GINGERBREAD_DEPTH / 2);
+
+    const front = GINGERBREAD_DEPTH / 2 + GINGERBREAD_BEVEL;
+    const dots: [number, number, number][] = [
+      [-0.06, 0.35, 0.025], [0.06, 0.35, 0.025],                   // Eyes
+      [0, 0.15, 0.03], [0, 0.03, 0.03], [0, -0.09, 0.03],          // Buttons
+    ];
+    const icing = merge(dots.map(([x, y, r]) => new THREE.SphereGeometry(r, 10, 8).translate(x, y, front)));
+    return [{ geometry: cookie }, { geometry: icing, material: ICING }];
+  },
+});
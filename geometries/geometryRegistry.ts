@@ -0,0 +1,67 @@
+import * as THREE from 'three';
+import { GeometryType } from '../types';
+
+// One instanced mesh of an ornament. All parts of a geometry share the
+// group's morph attributes, so they move, spin and pop as one piece.
+export interface GeometryPart {
+  geometry: THREE.BufferGeometry;
+  // Either changes to the group's own material (colour, metalness... from its
+  // config), such as a gold cap, or a complete material of its own, as models
+  // bring. Omitted: the group's material as is.
+  material?: THREE.MeshStandardMaterialParameters | THREE.Material;
+  // Coloured with the group's accent colour (ribbons, caps, hooks...)
+  accent?: boolean;
+}
+
+// Accent parts' colour when the group doesn't set one
+export const DEFAULT_ACCENT_COLOR = '#FFD700';
+
+export interface GeometryContext {
+  // Scene of the loaded `model`, for model geometries
+  model?: THREE.Object3D;
+  // Multiplier for segment counts of curved surfaces, set by the quality tier
+  detail: number;
+}
+
+export interface GeometryDefinition {
+  id: GeometryType;
+  label: string;
+  // GLTF/GLB file to load before building the parts; its scene is passed to `parts`
+  model?: string;
+  // Builds a fresh set of parts for one particle group. The first part is
+  // the body: it catches the pointer and sets the size used for picking.
+  parts: (context: GeometryContext) => GeometryPart[];
+  // Radians per second the ornaments turn at (default 0.2)
+  spinSpeed?: number;
+}
+
+const registry = new Map<GeometryType, GeometryDefinition>();
+
+export const registerGeometry = (geometry: GeometryDefinition) => {
+  registry.set(geometry.id, geometry);
+};
+
+export const getGeometry = (id: GeometryType): GeometryDefinition => {
+  const geometry = registry.get(id);
+  if (!geometry) {
+    throw new Error(`Unknown geometry type "${id}". Registered: ${listGeometries().map((g) => g.id).join(', ')}`);
+  }
+  return geometry;
+};
+
+export const hasGeometry = (id: GeometryType) => registry.has(id);
+
+export const listGeometries = (): GeometryDefinition[] => Array.from(registry.values());
+
+export const isOwnMaterial = (material: GeometryPart['material']): material is THREE.Material =>
+  material instanceof THREE.Material;
+
+// Frees what `parts` created. Textures of own materials are left alone, as
+// they may be shared with a cached model.
+export const disposeParts = (parts: GeometryPart[]) => {
+  parts.forEach(({ geometry, material }) => {
+    geometry.dispose();
+    if (isOwnMaterial(material)) material.dispose();
+    else material?.map?.dispose();
+  });
+};
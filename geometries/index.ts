@@ -0,0 +1,4 @@
+import './builtinGeometries';
+
+export * from './geometryRegistry';
+export * from './models';
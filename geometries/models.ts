@@ -0,0 +1,73 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { GeometryType } from '../types';
+import { GeometryPart, registerGeometry } from './geometryRegistry';
+
+const loader = new GLTFLoader();
+const scenes = new Map<string, Promise<THREE.Object3D>>();
+
+// Loads each model once; every group using it shares the same promise.
+// A file that fails to load is reported and renders as nothing.
+export const loadModel = (url: string): Promise<THREE.Object3D> => {
+  let scene = scenes.get(url);
+  if (!scene) {
+    scene = loader.loadAsync(url).then(
+      (gltf) => gltf.scene,
+      (error) => {
+        console.error(`Could not load ornament model "${url}"`, error);
+        return new THREE.Group();
+      }
+    );
+    scenes.set(url, scene);
+  }
+  return scene;
+};
+
+/**
+ * One part per mesh of the model, each keeping (a copy of) its own material.
+ * Node transforms are baked into the geometry, and the whole model is
+ * centred and scaled so its largest side is `size` units. Meshes with
+ * several materials use the first one.
+ */
+export const modelParts = (scene: THREE.Object3D, size = 1): GeometryPart[] => {
+  scene.updateMatrixWorld(true);
+  const parts: GeometryPart[] = [];
+  scene.traverse((child) => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh) return;
+    const material = Array.isArray(mesh.material) ? mesh.material[0] : mesh.material;
+    parts.push({ geometry: mesh.geometry.clone().applyMatrix4(mesh.matrixWorld), material: material.clone() });
+  });
+
+  const bounds = new THREE.Box3();
+  parts.forEach(({ geometry }) => {
+    geometry.computeBoundingBox();
+    if (geometry.boundingBox) bounds.union(geometry.boundingBox);
+  });
+  if (bounds.isEmpty()) return parts;
+  const center = bounds.getCenter(new THREE.Vector3());
+  const extent = bounds.getSize(new THREE.Vector3());
+  const scale = size / Math.max(extent.x, extent.y, extent.z, 1e-6);
+  parts.forEach(({ geometry }) => geometry.translate(-center.x, -center.y, -center.z).scale(scale, scale, scale));
+  return parts;
+};
+
+export interface ModelGeometryOptions {
+  id: GeometryType;
+  label: string;
+  // GLTF or GLB file, e.g. served from public/models/
+  url: string;
+  // Largest side in scene units before the group's scale (default 1, a sphere's width)
+  size?: number;
+  spinSpeed?: number;
+}
+
+// Registers a GLTF/GLB model as a geometry type
+export const registerModel = ({ id, label, url, size = 1, spinSpeed }: ModelGeometryOptions) =>
+  registerGeometry({
+    id,
+    label,
+    model: url,
+    spinSpeed,
+    parts: ({ model }) => (model ? modelParts(model, size) : []),
+  });
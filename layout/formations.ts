@@ -0,0 +1,59 @@
+import * as THREE from 'three';
+import { MorphTarget, RandomFn, Vec3Tuple } from '../types';
+import { getShape, DEFAULT_LOGO_POSITION } from '../shapes';
+import { randomFor } from '../utils/random';
+
+// Flattens generated shape points into an xyz array
+export const toPositionArray = (points: THREE.Vector3[]) => {
+  const array = new Float32Array(points.length * 3);
+  points.forEach((point, i) => point.toArray(array, i * 3));
+  return array;
+};
+
+// Places `count` instances in a formation
+export type FormationGenerator = (id: MorphTarget, count: number, random: RandomFn) => THREE.Vector3[];
+
+export const generateFormation: FormationGenerator = (id, count, random) => getShape(id).generate(count, random);
+
+/**
+ * Target positions (flat xyz) for `count` instances in formation `id`. Each
+ * group draws from its own stream, `<seedKey>:<id>`, so the same seed always
+ * lays a group out the same way, whatever else is in the scene.
+ */
+export const formationPositions = (
+  id: MorphTarget,
+  count: number,
+  seed: number,
+  seedKey: string,
+  generate: FormationGenerator = generateFormation
+) => toPositionArray(generate(id, count, randomFor(seed, `${seedKey}:${id}`)));
+
+// Where the top star sits in formation `id`. The camera's close-ups use the
+// same stream, so they find the star where it is drawn.
+export const starPosition = (id: MorphTarget, seed: number) =>
+  getShape(id).starPosition(randomFor(seed, `topStar:${id}`));
+
+// A logo piece's own scatter spot, tumble and phases
+export interface LogoScatter {
+  position: THREE.Vector3;
+  // Radians per second around each axis
+  rotSpeed: THREE.Vector3;
+  // Offsets the piece's tumble and bobbing in time
+  phase: number;
+  // Order for the random stagger
+  sparkle: number;
+}
+
+export const logoScatter = (seed: number, pieceKey: string): LogoScatter => {
+  const random = randomFor(seed, `logo:${pieceKey}`);
+  return {
+    position: new THREE.Vector3((random() - 0.5) * 45, (random() - 0.5) * 35, (random() - 0.5) * 20),
+    rotSpeed: new THREE.Vector3(random() * 0.5, random() * 0.5, random() * 0.5),
+    phase: random() * 10,
+    sparkle: random(),
+  };
+};
+
+// Where a logo piece sits when the logo is assembled around formation `id`
+export const logoPiecePosition = (offset: Vec3Tuple, id: MorphTarget) =>
+  new THREE.Vector3(...offset).add(getShape(id).logoPosition ?? DEFAULT_LOGO_POSITION);
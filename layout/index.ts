@@ -0,0 +1,5 @@
+// Where things go, free of React and the renderer: formation and logo
+// layouts, and the motion between them at any moment. Safe to run in Node.
+export * from './formations';
+export * from './motion';
+export * from './logo';
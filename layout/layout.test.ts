@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { LogoConfig, TreeState } from '../types';
+import {
+  SCATTER_RADIUS,
+  STAR_SCATTER_RADIUS,
+  TREE_BOTTOM,
+  TREE_TOP,
+  listShapes,
+  treeRadiusAt,
+} from '../shapes';
+import { defaultSceneConfig } from '../config/defaultScene';
+import { DEFAULT_TRANSITION } from '../utils/transition';
+import {
+  formationPositions,
+  floatOffset,
+  floatPhase,
+  layoutLogo,
+  logoScatter,
+  morphPositions,
+  starPosition,
+  LogoMeasurer,
+  LogoPiece,
+} from '.';
+
+const COUNT = 2000;
+const SEED = 12345;
+// Float32 storage rounds positions slightly
+const EPSILON = 1e-4;
+
+const points = (positions: Float32Array) =>
+  Array.from({ length: positions.length / 3 }, (_, i) => ({
+    x: positions[i * 3],
+    y: positions[i * 3 + 1],
+    z: positions[i * 3 + 2],
+  }));
+
+// Stand-in for canvas text metrics: CJK glyphs are square, others narrower
+const measure: LogoMeasurer = {
+  textWidth: (text) => Array.from(text).reduce((sum, c) => sum + (c.charCodeAt(0) > 0x2e80 ? 1 : 0.55), 0),
+  imageAspect: () => 2,
+};
+
+const overlaps = (a: LogoPiece, b: LogoPiece) =>
+  Math.abs(a.offset[0] - b.offset[0]) < (a.width + b.width) / 2 - EPSILON &&
+  Math.abs(a.offset[1] - b.offset[1]) < (a.height + b.height) / 2 - EPSILON;
+
+describe('formation layouts', () => {
+  it('keeps the tree inside its cone', () => {
+    for (const { x, y, z } of points(formationPositions(TreeState.TREE_SHAPE, COUNT, SEED, 'test'))) {
+      expect(y).toBeGreaterThanOrEqual(TREE_BOTTOM - EPSILON);
+      expect(y).toBeLessThanOrEqual(TREE_TOP + EPSILON);
+      expect(Math.hypot(x, z)).toBeLessThanOrEqual(treeRadiusAt(y) + EPSILON);
+    }
+  });
+
+  it('keeps the scatter inside its sphere', () => {
+    for (const { x, y, z } of points(formationPositions(TreeState.SCATTERED, COUNT, SEED, 'test'))) {
+      expect(Math.hypot(x, y, z)).toBeLessThanOrEqual(SCATTER_RADIUS + EPSILON);
+    }
+  });
+
+  it('places every instance of every built-in formation at a finite point', () => {
+    for (const shape of listShapes()) {
+      const positions = formationPositions(shape.id, COUNT, SEED, 'test');
+      expect(positions).toHaveLength(COUNT * 3);
+      expect(positions.every(Number.isFinite)).toBe(true);
+    }
+  });
+
+  it('repeats a layout for the same seed and stream', () => {
+    for (const id of Object.values(TreeState)) {
+      expect(formationPositions(id, COUNT, SEED, 'test')).toEqual(formationPositions(id, COUNT, SEED, 'test'));
+    }
+  });
+
+  it('changes a layout with the seed or the stream', () => {
+    const positions = formationPositions(TreeState.TREE_SHAPE, COUNT, SEED, 'test');
+    expect(formationPositions(TreeState.TREE_SHAPE, COUNT, SEED + 1, 'test')).not.toEqual(positions);
+    expect(formationPositions(TreeState.TREE_SHAPE, COUNT, SEED, 'other')).not.toEqual(positions);
+  });
+});
+
+describe('top star', () => {
+  it('sits on the axis above the cone apex in the tree', () => {
+    const star = starPosition(TreeState.TREE_SHAPE, SEED);
+    expect(star.x).toBe(0);
+    expect(star.z).toBe(0);
+    expect(star.y).toBeGreaterThan(TREE_TOP);
+  });
+
+  it('sits above every ornament in the tree', () => {
+    const star = starPosition(TreeState.TREE_SHAPE, SEED);
+    const highest = Math.max(...points(formationPositions(TreeState.TREE_SHAPE, COUNT, SEED, 'test')).map((p) => p.y));
+    expect(star.y).toBeGreaterThan(highest);
+  });
+
+  it('roams a fixed shell when scattered, the same way for the same seed', () => {
+    const star = starPosition(TreeState.SCATTERED, SEED);
+    expect(star.length()).toBeCloseTo(STAR_SCATTER_RADIUS);
+    expect(starPosition(TreeState.SCATTERED, SEED)).toEqual(star);
+  });
+});
+
+describe('logo layout', () => {
+  it("doesn't overlap the pieces of the default logo", () => {
+    const pieces = layoutLogo(defaultSceneConfig.logo, measure);
+    expect(pieces.length).toBeGreaterThan(defaultSceneConfig.logo.lines.length);
+    pieces.forEach((a, i) =>
+      pieces.slice(i + 1).forEach((b) => expect(overlaps(a, b), `${a.key} overlaps ${b.key}`).toBe(false))
+    );
+  });
+
+  it("doesn't overlap stacked lines with an image", () => {
+    const config: LogoConfig = {
+      enabled: true,
+      lineGap: 0.4,
+      lines: [
+        { image: 'logo.svg', size: 2, material: 'velvet' },
+        { text: 'ARIX', size: 1, material: 'glow', splitCharacters: true, letterSpacing: 0.5 },
+        { text: 'Signature', size: 0.5, material: 'velvet' },
+      ],
+    };
+    const pieces = layoutLogo(config, measure);
+    pieces.forEach((a, i) => pieces.slice(i + 1).forEach((b) => expect(overlaps(a, b)).toBe(false)));
+  });
+
+  it('keeps the gaps between words of split lines', () => {
+    const line = { text: 'EST 2021', size: 1, material: 'glow' as const, splitCharacters: true };
+    const pieces = layoutLogo({ enabled: true, lineGap: 0, lines: [line] }, measure);
+    expect(pieces.map((piece) => piece.content).join('')).toBe('EST2021');
+    const gap = pieces[3].offset[0] - pieces[2].offset[0];
+    const step = pieces[2].offset[0] - pieces[1].offset[0];
+    expect(gap).toBeCloseTo(step + measure.textWidth(' ', '', ''));
+  });
+
+  it('centres each line on the anchor', () => {
+    const pieces = layoutLogo(defaultSceneConfig.logo, measure);
+    const firstLine = pieces.filter((piece) => piece.key.startsWith('0:'));
+    const left = Math.min(...firstLine.map((p) => p.offset[0] - p.width / 2));
+    const right = Math.max(...firstLine.map((p) => p.offset[0] + p.width / 2));
+    expect(left + right).toBeCloseTo(0);
+  });
+
+  it('scatters each piece the same way for the same seed', () => {
+    expect(logoScatter(SEED, '0:1')).toEqual(logoScatter(SEED, '0:1'));
+    expect(logoScatter(SEED, '0:1').position).not.toEqual(logoScatter(SEED, '0:2').position);
+  });
+});
+
+describe('motion', () => {
+  const from = formationPositions(TreeState.SCATTERED, COUNT, SEED, 'test');
+  const to = formationPositions(TreeState.TREE_SHAPE, COUNT, SEED, 'test');
+  const delay = new Float32Array(COUNT).map((_, i) => i / COUNT);
+  const transition = { ...DEFAULT_TRANSITION, stagger: 'random' as const };
+
+  it('starts at the old formation and ends exactly on the new one', () => {
+    expect(morphPositions(from, to, delay, transition, 0)).toEqual(from);
+    expect(morphPositions(from, to, delay, transition, transition.duration)).toEqual(to);
+    expect(morphPositions(from, to, delay, transition, transition.duration * 2)).toEqual(to);
+  });
+
+  it('moves every instance along the line between its two positions', () => {
+    const halfway = morphPositions(from, to, delay, transition, transition.duration / 2);
+    for (let i = 0; i < COUNT; i++) {
+      const t = [0, 1, 2]
+        .map((k) => i * 3 + k)
+        .filter((k) => Math.abs(to[k] - from[k]) > 1)
+        .map((k) => (halfway[k] - from[k]) / (to[k] - from[k]));
+      t.forEach((value) => expect(value).toBeCloseTo(t[0], 3));
+    }
+  });
+
+  it('floats within half the intensity and stops at zero intensity', () => {
+    for (let i = 0; i < 100; i++) {
+      const offset = floatOffset(floatPhase(i), i * 0.37, 1);
+      expect(Math.abs(offset.x)).toBeLessThanOrEqual(0.5);
+      expect(Math.abs(offset.y)).toBeLessThanOrEqual(0.5);
+      expect(offset.z).toBe(0);
+      expect(floatOffset(floatPhase(i), i * 0.37, 0).length()).toBe(0);
+    }
+  });
+});
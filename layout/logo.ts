@@ -0,0 +1,99 @@
+import { LogoConfig, LogoMaterial, Vec3Tuple } from '../types';
+
+// One independently scattering piece of the brand block
+export interface LogoPiece {
+  key: string;
+  kind: 'text' | 'image';
+  // The text to draw, or the image URL
+  content: string;
+  fontFamily: string;
+  fontWeight: string;
+  // Font size in world units (text only)
+  fontSize: number;
+  // Size of the quad in world units, padding included
+  width: number;
+  height: number;
+  // Centre of the quad relative to the formation's logo anchor
+  offset: Vec3Tuple;
+  material: LogoMaterial;
+  color?: string;
+}
+
+export interface LogoMeasurer {
+  // Width in world units of `text` drawn at font size 1
+  textWidth: (text: string, fontFamily: string, fontWeight: string) => number;
+  // Width / height of a loaded image
+  imageAspect: (url: string) => number;
+}
+
+// Transparent margin around text so the glow shadow isn't clipped,
+// as a fraction of the font size
+const TEXT_PADDING = 0.2;
+
+const DEFAULT_FONT_FAMILY = 'sans-serif';
+const DEFAULT_FONT_WEIGHT = 'normal';
+
+/**
+ * Lays the brand lines out as a block centred on the logo anchor: lines are
+ * stacked top to bottom and each is centred horizontally. Split lines yield
+ * one piece per character.
+ */
+export const layoutLogo = (config: LogoConfig, measure: LogoMeasurer): LogoPiece[] => {
+  const totalHeight =
+    config.lines.reduce((sum, line) => sum + line.size, 0) + config.lineGap * Math.max(0, config.lines.length - 1);
+
+  const pieces: LogoPiece[] = [];
+  let top = totalHeight / 2;
+
+  config.lines.forEach((line, lineIndex) => {
+    const y = top - line.size / 2;
+    top -= line.size + config.lineGap;
+
+    const fontFamily = line.fontFamily ?? DEFAULT_FONT_FAMILY;
+    const fontWeight = line.fontWeight ?? DEFAULT_FONT_WEIGHT;
+    const base = { fontFamily, fontWeight, fontSize: line.size, material: line.material, color: line.color };
+
+    if (line.image !== undefined) {
+      const width = line.size * measure.imageAspect(line.image);
+      pieces.push({
+        ...base,
+        key: `${lineIndex}`,
+        kind: 'image',
+        content: line.image,
+        width,
+        height: line.size,
+        offset: [0, y, 0],
+      });
+      return;
+    }
+
+    const text = line.text ?? '';
+    const padding = line.size * TEXT_PADDING * 2;
+    // Array.from keeps surrogate pairs (emoji, rare CJK) together
+    const chunks = line.splitCharacters ? Array.from(text) : [text];
+    const spacing = line.splitCharacters ? (line.letterSpacing ?? 0) : 0;
+    const widths = chunks.map((chunk) => measure.textWidth(chunk, fontFamily, fontWeight) * line.size);
+    const lineWidth = widths.reduce((sum, w) => sum + w, 0) + spacing * Math.max(0, chunks.length - 1);
+
+    let x = -lineWidth / 2;
+    chunks.forEach((chunk, i) => {
+      // Spaces only take up their width; there is nothing to draw
+      if (chunk.trim() === '') {
+        x += widths[i] + spacing;
+        return;
+      }
+      pieces.push({
+        ...base,
+        key: `${lineIndex}:${i}`,
+        kind: 'text',
+        content: chunk,
+        width: widths[i] + padding,
+        height: line.size + padding,
+        offset: [x + widths[i] / 2, y, 0],
+      });
+      x += widths[i] + spacing;
+    });
+  });
+
+  return pieces;
+};
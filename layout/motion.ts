@@ -0,0 +1,54 @@
+import * as THREE from 'three';
+import { MorphTarget, TransitionConfig } from '../types';
+import { getShape } from '../shapes';
+import { transitionProgress } from '../utils/transition';
+
+// Instances drift freely when scattered and settle down in a formation
+export const floatIntensity = (id: MorphTarget) => (getShape(id).scattered ? 1 : 0.2);
+
+// Per-instance phase offsets of the float wobble; kept small for shader precision
+export const floatPhase = (index: number): [number, number] => [
+  (index * 10) % (Math.PI * 2),
+  (index * 5) % (Math.PI * 2),
+];
+
+/**
+ * The float wobble added to an instance at `time` seconds. Keep in sync with
+ * morphOffset() in utils/morphShader.ts.
+ */
+export const floatOffset = (
+  phase: [number, number],
+  time: number,
+  intensity: number,
+  target = new THREE.Vector3()
+) =>
+  target.set(
+    Math.cos(time * 0.5 + phase[1]) * 0.5 * intensity,
+    Math.sin(time + phase[0]) * 0.5 * intensity,
+    0
+  );
+
+// Gentle bob of an assembled logo piece, added to its height every frame
+export const logoBob = (time: number) => Math.sin(time * 1.5) * 0.002;
+
+/**
+ * Where every instance is `elapsed` seconds into `transition` from `from` to
+ * `to` (flat xyz), each held back by its own stagger delay. Writes into `out`,
+ * which may be `from` itself.
+ */
+export const morphPositions = (
+  from: Float32Array,
+  to: Float32Array,
+  delay: Float32Array,
+  transition: TransitionConfig,
+  elapsed: number,
+  out: Float32Array = new Float32Array(from.length)
+) => {
+  for (let i = 0; i < delay.length; i++) {
+    const t = transitionProgress(transition, elapsed, delay[i]);
+    for (let k = i * 3; k < i * 3 + 3; k++) {
+      out[k] = from[k] + (to[k] - from[k]) * t;
+    }
+  }
+  return out;
+};
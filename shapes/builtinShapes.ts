@@ -0,0 +1,204 @@
+import * as THREE from 'three';
+import { TreeState, RandomFn } from '../types';
+import { registerShape, ShapeDefinition } from './shapeRegistry';
+import { TREE_BOTTOM, TREE_TOP, TREE_STAR_Y, treeRadiusAt } from './treeProfile';
+
+// Random point inside a solid sphere of the given radius
+const randomInSphere = (radius: number, random: RandomFn) => {
+  const r = radius * Math.cbrt(random());
+  const theta = random() * 2 * Math.PI;
+  const phi = Math.acos(2 * random() - 1);
+  return new THREE.Vector3(
+    r * Math.sin(phi) * Math.cos(theta),
+    r * Math.sin(phi) * Math.sin(theta),
+    r * Math.cos(phi)
+  );
+};
+
+// Random point on the surface of a sphere of the given radius
+const randomOnSphere = (radius: number, random: RandomFn) => {
+  const theta = random() * Math.PI * 2;
+  const phi = Math.acos(2 * random() - 1);
+  return new THREE.Vector3(
+    radius * Math.sin(phi) * Math.cos(theta),
+    radius * Math.sin(phi) * Math.sin(theta),
+    radius * Math.cos(phi)
+  );
+};
+
+// The cosmic scatter fills a sphere this big; its star roams a shell just outside
+export const SCATTER_RADIUS = 35;
+export const STAR_SCATTER_RADIUS = 40;
+
+const times = (count: number, fn: (i: number) => THREE.Vector3) =>
+  Array.from({ length: count }, (_, i) => fn(i));
+
+// 1. Cosmic scatter: random point in a large sphere
+const scattered: ShapeDefinition = {
+  id: TreeState.SCATTERED,
+  label: 'Scattered',
+  description: 'a drifting cloud of sparkles',
+  scattered: true,
+  generate: (count, random) => times(count, () => randomInSphere(SCATTER_RADIUS, random)),
+  starPosition: (random) => randomOnSphere(STAR_SCATTER_RADIUS, random),
+};
+
+// 2. Cone spiral. Tree height goes from -9 to +9.
+const tree: ShapeDefinition = {
+  id: TreeState.TREE_SHAPE,
+  label: 'Tree',
+  description: 'a Christmas tree',
+  scattered: false,
+  generate: (count, random) =>
+    times(count, () => {
+      const y = TREE_BOTTOM + random() * (TREE_TOP - TREE_BOTTOM); // -9 to 9 height
+      const maxRadiusAtY = treeRadiusAt(y);
+      const radius = random() * maxRadiusAtY;
+      const angle = y * 5 + random() * Math.PI * 2;
+      return new THREE.Vector3(Math.cos(angle) * radius, y, Math.sin(angle) * radius);
+    }),
+  // The star sits proudly at the peak
+  starPosition: () => new THREE.Vector3(0, TREE_STAR_Y, 0),
+};
+
+// 3. Filled heart using the classic parametric curve
+const heart: ShapeDefinition = {
+  id: TreeState.HEART,
+  label: 'Heart',
+  description: 'a heart',
+  scattered: false,
+  generate: (count, random) =>
+    times(count, () => {
+      const t = random() * Math.PI * 2;
+      const fill = Math.sqrt(random()); // Even density across the area
+      const x = 16 * Math.pow(Math.sin(t), 3);
+      const y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+      const scale = 0.55 * fill;
+      return new THREE.Vector3(x * scale, y * scale + 1.5, (random() - 0.5) * 3 * (1 - fill * 0.5));
+    }),
+  starPosition: () => new THREE.Vector3(0, 9.5, 0),
+};
+
+// 4. Filled five-point star facing the camera
+const starRadiusAt = (angle: number, outer: number, inner: number) => {
+  const sector = Math.PI / 5;
+  // Distance along the edge between an outer and an inner vertex
+  const local = ((angle % (2 * sector)) + 2 * sector) % (2 * sector);
+  const t = local <= sector ? local / sector : 2 - local / sector;
+  return outer + (inner - outer) * t;
+};
+
+const star: ShapeDefinition = {
+  id: TreeState.STAR,
+  label: 'Star',
+  description: 'a five-point star',
+  scattered: false,
+  generate: (count, random) =>
+    times(count, () => {
+      const angle = random() * Math.PI * 2;
+      const radius = starRadiusAt(angle, 9, 3.8) * Math.sqrt(random());
+      // Rotate so the first point faces straight up
+      const finalAngle = angle + Math.PI / 2;
+      return new THREE.Vector3(
+        Math.cos(finalAngle) * radius,
+        Math.sin(finalAngle) * radius,
+        (random() - 0.5) * 2
+      );
+    }),
+  starPosition: () => new THREE.Vector3(0, 0, 1.5),
+};
+
+// 5. Three-armed spiral galaxy, face-on to the camera
+const galaxy: ShapeDefinition = {
+  id: TreeState.GALAXY,
+  label: 'Spiral Galaxy',
+  description: 'a spiral galaxy',
+  scattered: false,
+  generate: (count, random) => {
+    const arms = 3;
+    return times(count, (i) => {
+      const r = Math.pow(random(), 0.6) * 12;
+      const arm = i % arms;
+      const angle = (arm / arms) * Math.PI * 2 + r * 0.45 + (random() - 0.5) * (0.6 + 2 / (r + 1));
+      const thickness = (1 - r / 12) * 1.5 + 0.2;
+      return new THREE.Vector3(
+        Math.cos(angle) * r,
+        Math.sin(angle) * r,
+        (random() - 0.5) * 2 * thickness
+      );
+    });
+  },
+  // Bright core
+  starPosition: () => new THREE.Vector3(0, 0, 0),
+  logoPosition: new THREE.Vector3(0, -10, 10),
+};
+
+// 6. "2027" drawn with seven-segment digits
+// Segments as [x1, y1, x2, y2] on a 0..1 wide, 0..2 high cell
+const SEGMENTS: Record<string, [number, number, number, number]> = {
+  a: [0, 2, 1, 2],
+  b: [1, 2, 1, 1],
+  c: [1, 1, 1, 0],
+  d: [0, 0, 1, 0],
+  e: [0, 1, 0, 0],
+  f: [0, 2, 0, 1],
+  g: [0, 1, 1, 1],
+};
+
+const DIGIT_SEGMENTS: Record<string, string> = {
+  '0': 'abcdef',
+  '1': 'bc',
+  '2': 'abged',
+  '3': 'abgcd',
+  '4': 'fgbc',
+  '5': 'afgcd',
+  '6': 'afgedc',
+  '7': 'abc',
+  '8': 'abcdefg',
+  '9': 'abcdfg',
+};
+
+const DIGITS_TEXT = '2027';
+
+const digits: ShapeDefinition = {
+  id: TreeState.DIGITS,
+  label: '2027',
+  description: 'the year 2027',
+  scattered: false,
+  generate: (count, random) => {
+    const cellWidth = 3;
+    const cellHeight = 3; // Half height: a digit is 2 cells tall
+    const spacing = 4.4;
+    const startX = -((DIGITS_TEXT.length - 1) * spacing) / 2 - cellWidth / 2;
+    const strokes = DIGITS_TEXT.split('').flatMap((char, d) =>
+      DIGIT_SEGMENTS[char].split('').map((seg) => {
+        const [x1, y1, x2, y2] = SEGMENTS[seg];
+        const ox = startX + d * spacing;
+        return [ox + x1 * cellWidth, (y1 - 1) * cellHeight, ox + x2 * cellWidth, (y2 - 1) * cellHeight];
+      })
+    );
+    return times(count, (i) => {
+      const [x1, y1, x2, y2] = strokes[i % strokes.length];
+      const t = random();
+      return new THREE.Vector3(
+        x1 + (x2 - x1) * t + (random() - 0.5) * 0.6,
+        y1 + (y2 - y1) * t + (random() - 0.5) * 0.6,
+        (random() - 0.5) * 1.2
+      );
+    });
+  },
+  starPosition: () => new THREE.Vector3(0, 5.5, 0),
+  logoPosition: new THREE.Vector3(0, -6, 10),
+};
+
+// 7. Hollow glitter ball
+const sphere: ShapeDefinition = {
+  id: TreeState.SPHERE,
+  label: 'Sphere',
+  description: 'a glittering sphere',
+  scattered: false,
+  generate: (count, random) => times(count, () => randomOnSphere(7.5 + random() * 0.8, random)),
+  starPosition: () => new THREE.Vector3(0, 9.5, 0),
+};
+
+[scattered, tree, heart, star, galaxy, digits, sphere].forEach(registerShape);
@@ -0,0 +1,7 @@
+import './builtinShapes';
+
+export { SCATTER_RADIUS, STAR_SCATTER_RADIUS } from './builtinShapes';
+
+export * from './shapeRegistry';
+export * from './treeProfile';
+export * from './textShape';
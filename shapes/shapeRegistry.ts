@@ -0,0 +1,42 @@
+import * as THREE from 'three';
+import { MorphTarget, RandomFn } from '../types';
+
+export interface ShapeDefinition {
+  id: MorphTarget;
+  label: string;
+  // Loose formations (like the cosmic scatter) make the logo break apart,
+  // the star tumble and the float motion stay strong.
+  scattered: boolean;
+  // Returns one target position per particle instance
+  generate: (count: number, random: RandomFn) => THREE.Vector3[];
+  // Where the TopStar sits in this formation
+  starPosition: (random: RandomFn) => THREE.Vector3;
+  // Base position of the assembled logo (ignored for scattered shapes)
+  logoPosition?: THREE.Vector3;
+  // Read out to screen readers, e.g. "a heart" (defaults to the label)
+  description?: string;
+}
+
+export const DEFAULT_LOGO_POSITION = new THREE.Vector3(0, -1, 11); // Slightly pushed forward
+
+const registry = new Map<MorphTarget, ShapeDefinition>();
+
+export const registerShape = (shape: ShapeDefinition) => {
+  registry.set(shape.id, shape);
+};
+
+export const unregisterShape = (id: MorphTarget) => {
+  registry.delete(id);
+};
+
+export const getShape = (id: MorphTarget): ShapeDefinition => {
+  const shape = registry.get(id);
+  if (!shape) {
+    throw new Error(`Unknown morph target "${id}". Registered: ${listShapes().map((s) => s.id).join(', ')}`);
+  }
+  return shape;
+};
+
+export const hasShape = (id: MorphTarget) => registry.has(id);
+
+export const listShapes = (): ShapeDefinition[] => Array.from(registry.values());
@@ -0,0 +1,153 @@
+import * as THREE from 'three';
+import { MessageConfig, MorphTarget } from '../types';
+import { hashString } from '../utils/random';
+import { registerShape, unregisterShape, ShapeDefinition } from './shapeRegistry';
+
+export interface TextShapeOptions {
+  id: MorphTarget;
+  label?: string;
+  // Lines are split on '\n'
+  text: string;
+  // CSS font family and weight
+  fontFamily?: string;
+  fontWeight?: string;
+}
+
+// Falls back through common CJK system fonts so Chinese, Japanese and
+// Korean messages rasterise too
+export const DEFAULT_TEXT_FONT =
+  '"Helvetica Neue", Arial, "PingFang SC", "Hiragino Sans", "Microsoft YaHei", "Noto Sans CJK SC", sans-serif';
+
+// Raster size of one line; fine enough for ornament-sized dots
+const FONT_PX = 96;
+const LINE_HEIGHT = 1.2;
+// Every SAMPLE_STEP-th pixel of the raster is a candidate point
+const SAMPLE_STEP = 2;
+// The message fills this much of the view, in world units, centred on MESSAGE_Y
+const MAX_WIDTH = 26;
+const MAX_HEIGHT = 14;
+const MESSAGE_Y = 1;
+const DEPTH = 1.2;
+
+interface TextRaster {
+  // x/y pairs in world units
+  points: Float32Array;
+  // Size of one sample cell in world units, for jitter
+  cell: number;
+  top: number;
+  bottom: number;
+}
+
+// Draws the text and keeps the filled pixels on a grid, scaled and centred
+const rasterizeText = (text: string, font: string): TextRaster => {
+  const lines = text.split('\n');
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return { points: new Float32Array(0), cell: 0, top: MESSAGE_Y, bottom: MESSAGE_Y };
+
+  ctx.font = font;
+  const widest = Math.max(1, ...lines.map((line) => ctx.measureText(line).width));
+  const lineHeight = FONT_PX * LINE_HEIGHT;
+  // A margin keeps descenders and wide glyphs on the canvas
+  const margin = FONT_PX * 0.5;
+  canvas.width = Math.ceil(widest + margin * 2);
+  canvas.height = Math.ceil(lines.length * lineHeight + margin * 2);
+
+  // Resizing resets the context
+  ctx.font = font;
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((line, i) => ctx.fillText(line, canvas.width / 2, margin + (i + 0.5) * lineHeight));
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const scale = Math.min(MAX_WIDTH / widest, MAX_HEIGHT / (lines.length * lineHeight));
+  const pixels: number[] = [];
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (let py = 0; py < canvas.height; py += SAMPLE_STEP) {
+    for (let px = 0; px < canvas.width; px += SAMPLE_STEP) {
+      if (data[(py * canvas.width + px) * 4 + 3] < 128) continue;
+      const y = (canvas.height / 2 - py) * scale + MESSAGE_Y;
+      pixels.push((px - canvas.width / 2) * scale, y);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+  }
+
+  return pixels.length > 0
+    ? { points: Float32Array.from(pixels), cell: SAMPLE_STEP * scale, top: maxY, bottom: minY }
+    : { points: new Float32Array(0), cell: 0, top: MESSAGE_Y, bottom: MESSAGE_Y };
+};
+
+/**
+ * A formation spelling out `text`. The text is drawn on a canvas the first
+ * time the formation is needed and its filled pixels become the targets.
+ * With fewer instances than points, a seeded random subset is used, spread
+ * over the whole message; with more, points are shared and jittered within
+ * their pixel so the letters fill in rather than stack.
+ */
+export const textShape = ({ id, label, text, fontFamily = DEFAULT_TEXT_FONT, fontWeight = 'bold' }: TextShapeOptions): ShapeDefinition => {
+  let raster: TextRaster | null = null;
+  const getRaster = () => (raster ??= rasterizeText(text, `${fontWeight} ${FONT_PX}px ${fontFamily}`));
+
+  return {
+    id,
+    label: label ?? text,
+    description: `the words "${text.replace(/\n/g, ' ')}"`,
+    scattered: false,
+    generate: (count, random) => {
+      const { points, cell } = getRaster();
+      const total = points.length / 2;
+      if (total === 0) return Array.from({ length: count }, () => new THREE.Vector3(0, MESSAGE_Y, 0));
+
+      // A seeded shuffle: the first `count` entries are an even random pick,
+      // and cycling through it shares points out evenly
+      const order = Uint32Array.from({ length: total }, (_, i) => i);
+      for (let i = total - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+
+      return Array.from({ length: count }, (_, i) => {
+        const p = order[i % total] * 2;
+        return new THREE.Vector3(
+          points[p] + (random() - 0.5) * cell,
+          points[p + 1] + (random() - 0.5) * cell,
+          (random() - 0.5) * DEPTH
+        );
+      });
+    },
+    // Just above the message
+    starPosition: () => new THREE.Vector3(0, getRaster().top + 1.5, 0),
+    // Below it; a getter so the text is only drawn once it is shown
+    get logoPosition() {
+      return new THREE.Vector3(0, getRaster().bottom - 2.5, 10);
+    },
+  };
+};
+
+const MESSAGE_PREFIX = 'MESSAGE:';
+// Message formations left registered: the latest and the few before it, so
+// a scene still morphing out of an edited message finds its old shape
+const MESSAGE_SHAPES_KEPT = 4;
+const messageIds: MorphTarget[] = [];
+
+export const isMessageShape = (id: MorphTarget) => id.startsWith(MESSAGE_PREFIX);
+
+/**
+ * Registers the formation for a scene's message and returns its id. The id
+ * follows the text and font, so an edited message never reuses positions
+ * generated for the old one. Older messages are unregistered as new ones
+ * come in, so live editing doesn't pile up shapes.
+ */
+export const registerMessageShape = (message: MessageConfig): MorphTarget => {
+  const { text, fontFamily, fontWeight } = message;
+  const id = `${MESSAGE_PREFIX}${hashString(`${text}\u0000${fontFamily ?? ''}\u0000${fontWeight ?? ''}`).toString(36)}`;
+  const known = messageIds.indexOf(id);
+  if (known >= 0) messageIds.splice(known, 1);
+  else registerShape(textShape({ id, text, fontFamily, fontWeight }));
+  messageIds.push(id);
+  while (messageIds.length > MESSAGE_SHAPES_KEPT) unregisterShape(messageIds.shift()!);
+  return id;
+};
@@ -0,0 +1,9 @@
+// Outline of the tree cone, shared by the tree formation and anything
+// wrapped around it (like the string lights)
+export const TREE_BOTTOM = -9;
+export const TREE_TOP = 9;
+// Centre of the top star, just clear of the tip
+export const TREE_STAR_Y = TREE_TOP + 1.5;
+
+// Widest radius the tree reaches at height `y`
+export const treeRadiusAt = (y: number) => (1 - (y - TREE_BOTTOM) / (TREE_TOP - TREE_BOTTOM)) * 6 + 0.5;
@@ -0,0 +1,57 @@
+import { Timeline, TimelineStep, TransitionConfig } from '../types';
+import { DEFAULT_TRANSITION } from '../utils/transition';
+
+export const stepDuration = (step: TimelineStep) => step.transition + step.hold;
+
+// How a step morphs into its formation; unset fields fall back to the defaults
+export const stepTransition = (step: TimelineStep): TransitionConfig => ({
+  ...DEFAULT_TRANSITION,
+  duration: step.transition,
+  easing: step.easing ?? DEFAULT_TRANSITION.easing,
+  stagger: step.stagger ?? DEFAULT_TRANSITION.stagger,
+});
+
+export const timelineDuration = (timeline: Timeline) =>
+  timeline.steps.reduce((sum, step) => sum + stepDuration(step), 0);
+
+export interface TimelinePosition {
+  stepIndex: number;
+  step: TimelineStep;
+  // Seconds since the step started
+  stepTime: number;
+  // Seconds until the next step starts (Infinity once a non-looping timeline ends)
+  remaining: number;
+  ended: boolean;
+}
+
+/**
+ * Where a timeline is `time` seconds after it started. Looping timelines wrap
+ * around; others stop on their last step.
+ */
+export const resolveTimeline = (timeline: Timeline, time: number): TimelinePosition => {
+  const { steps } = timeline;
+  if (steps.length === 0) throw new Error('Timeline has no steps');
+
+  const duration = timelineDuration(timeline);
+  let t = Math.max(0, time);
+  if (timeline.loop && duration > 0) {
+    t %= duration;
+  } else if (t >= duration) {
+    const last = steps.length - 1;
+    return { stepIndex: last, step: steps[last], stepTime: stepDuration(steps[last]), remaining: Infinity, ended: true };
+  }
+
+  for (let i = 0; i < steps.length; i++) {
+    const length = stepDuration(steps[i]);
+    if (t < length || i === steps.length - 1) {
+      return { stepIndex: i, step: steps[i], stepTime: t, remaining: length - t, ended: false };
+    }
+    t -= length;
+  }
+  // Unreachable: the loop always returns on the last step
+  throw new Error('Timeline resolution failed');
+};
+
+// Start time of a step, in seconds from the beginning of the timeline
+export const stepStartTime = (timeline: Timeline, stepIndex: number) =>
+  timeline.steps.slice(0, stepIndex).reduce((sum, step) => sum + stepDuration(step), 0);
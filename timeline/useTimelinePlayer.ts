@@ -0,0 +1,107 @@
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Timeline, TimelineStep, EffectTrigger } from '../types';
+import { resolveTimeline, timelineDuration } from './timeline';
+
+export interface TimelinePlayer {
+  step: TimelineStep;
+  stepIndex: number;
+  isPlaying: boolean;
+  // Length of one pass through the timeline, in seconds
+  duration: number;
+  trigger: EffectTrigger | null;
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  // Current playhead in seconds (not wrapped for looping timelines)
+  getTime: () => number;
+}
+
+const now = () => performance.now() / 1000;
+
+/**
+ * Plays a Timeline in wall-clock time. Only step boundaries cause React
+ * updates: a single timeout is scheduled for the end of the current step.
+ */
+export const useTimelinePlayer = (timeline: Timeline, autoPlay = true): TimelinePlayer => {
+  // Playhead = offset + time since `startedAt`; startedAt is null while paused
+  const clockRef = useRef<{ offset: number; startedAt: number | null }>({
+    offset: 0,
+    startedAt: autoPlay ? now() : null,
+  });
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(autoPlay);
+  const [trigger, setTrigger] = useState<EffectTrigger | null>(null);
+  // Bumped on seek so the scheduling effect re-runs even if the step is unchanged
+  const [seekCount, setSeekCount] = useState(0);
+
+  const getTime = useCallback(() => {
+    const { offset, startedAt } = clockRef.current;
+    return startedAt === null ? offset : offset + (now() - startedAt);
+  }, []);
+
+  const fireEffects = useCallback((step: TimelineStep) => {
+    if (step.effects?.length) {
+      setTrigger((prev) => ({ effects: step.effects!, id: (prev?.id ?? 0) + 1 }));
+    }
+  }, []);
+
+  // Fire the first step's effects when playback starts from the top
+  useEffect(() => {
+    if (autoPlay) fireEffects(timeline.steps[0]);
+  }, [timeline, autoPlay, fireEffects]);
+
+  // Advance to the next step when the current one runs out
+  useEffect(() => {
+    if (!isPlaying) return;
+    const { remaining } = resolveTimeline(timeline, getTime());
+    if (!Number.isFinite(remaining)) return;
+
+    const timeoutId = setTimeout(() => {
+      const position = resolveTimeline(timeline, getTime());
+      if (position.ended) {
+        clockRef.current = { offset: getTime(), startedAt: null };
+        setIsPlaying(false);
+      }
+      setStepIndex(position.stepIndex);
+      if (!position.ended) fireEffects(position.step);
+      setSeekCount((c) => c + 1);
+    }, remaining * 1000);
+
+    return () => clearTimeout(timeoutId);
+  }, [timeline, isPlaying, stepIndex, seekCount, getTime, fireEffects]);
+
+  const play = useCallback(() => {
+    if (clockRef.current.startedAt !== null) return;
+    clockRef.current = { offset: clockRef.current.offset, startedAt: now() };
+    setIsPlaying(true);
+  }, []);
+
+  const pause = useCallback(() => {
+    clockRef.current = { offset: getTime(), startedAt: null };
+    setIsPlaying(false);
+  }, [getTime]);
+
+  const seek = useCallback(
+    (time: number) => {
+      const { startedAt } = clockRef.current;
+      clockRef.current = { offset: time, startedAt: startedAt === null ? null : now() };
+      setStepIndex(resolveTimeline(timeline, time).stepIndex);
+      setSeekCount((c) => c + 1);
+    },
+    [timeline]
+  );
+
+  const duration = useMemo(() => timelineDuration(timeline), [timeline]);
+
+  return {
+    step: timeline.steps[stepIndex] ?? timeline.steps[0],
+    stepIndex,
+    isPlaying,
+    duration,
+    trigger,
+    play,
+    pause,
+    seek,
+    getTime,
+  };
+};
@@ -1,25 +1,420 @@
 import * as THREE from 'three';
 
+// Built-in formations. Each value is also the id of a shape in the
+// shape registry (see shapes/), which can hold custom formations too.
 export enum TreeState {
   SCATTERED = 'SCATTERED',
   TREE_SHAPE = 'TREE_SHAPE',
+  HEART = 'HEART',
+  STAR = 'STAR',
+  GALAXY = 'GALAXY',
+  DIGITS = 'DIGITS',
+  SPHERE = 'SPHERE',
 }
 
-export interface PositionData {
-  scatterPos: THREE.Vector3;
-  treePos: THREE.Vector3;
+// Any registered shape id. Keeps autocomplete for the built-ins.
+export type MorphTarget = TreeState | (string & {});
+
+// Source of random numbers in [0, 1), like Math.random. Layout code draws
+// only from one of these so a seed reproduces the same scene.
+export type RandomFn = () => number;
+
+export const EASINGS = ['linear', 'easeInOutCubic', 'back', 'elastic'] as const;
+export type EasingName = typeof EASINGS[number];
+
+// Order in which particles start moving during a transition
+export const STAGGER_PATTERNS = ['none', 'bottomUp', 'topDown', 'spiral', 'random'] as const;
+export type StaggerPattern = typeof STAGGER_PATTERNS[number];
+
+export interface TransitionConfig {
+  // Seconds from the first particle leaving to the last one arriving
+  duration: number;
+  easing: EasingName;
+  stagger: StaggerPattern;
+  // Share of the duration spread out over the stagger (0 = all move together)
+  staggerAmount: number;
+}
+
+// One-shot effects a timeline step can fire when it starts
+export const TIMELINE_EFFECTS = ['starFlare', 'bloomPulse'] as const;
+export type TimelineEffect = typeof TIMELINE_EFFECTS[number];
+
+// Effects fired by the step that just started. `id` changes on every firing
+// so the same effect can be triggered twice in a row.
+export interface EffectTrigger {
+  effects: TimelineEffect[];
+  id: number;
+}
+
+export interface CameraMove {
+  position: Vec3Tuple;
+  // Point the camera looks at / orbits around (defaults to the origin)
+  target?: Vec3Tuple;
+}
+
+export interface TimelineStep {
+  state: MorphTarget;
+  // Seconds allowed for the morph into `state`
+  transition: number;
+  easing?: EasingName;
+  stagger?: StaggerPattern;
+  // Seconds `state` is held once the morph is done
+  hold: number;
+  camera?: CameraMove;
+  // Named camera shot (see camera/); takes precedence over `camera`
+  shot?: string;
+  effects?: TimelineEffect[];
+}
+
+// Declarative choreography replacing hand-written timers
+export interface Timeline {
+  steps: TimelineStep[];
+  loop: boolean;
+}
+
+// What the scene shows at one moment of a scripted sequence
+export interface ScriptedStep {
+  state: MorphTarget;
+  transition: TransitionConfig;
+}
+
+// Formations shown over time during a frame-by-frame video export
+export interface ExportScript {
+  duration: number; // seconds
+  stepAt: (time: number) => ScriptedStep;
+}
+
+// Per-instance values that stay the same whatever formation is shown
+export interface InstanceData {
   rotation: THREE.Euler;
   scale: number;
 }
 
+// Built-in ornament geometries. Each is also the id of an entry in the
+// geometry registry (see geometries/), which can hold custom ones too.
+export const GEOMETRY_TYPES = [
+  'sphere',
+  'box',
+  'cylinder',
+  'dodecahedron',
+  'giftBox',
+  'candyCane',
+  'bell',
+  'pinecone',
+  'snowflake',
+  'teardrop',
+  'gingerbread',
+] as const;
+
+// Any registered geometry id. Keeps autocomplete for the built-ins.
+export type GeometryType = typeof GEOMETRY_TYPES[number] | (string & {});
+
+// What clicking an ornament can do
+export const ORNAMENT_ACTIONS = ['pop', 'spin', 'chime', 'greeting'] as const;
+export type OrnamentAction = typeof ORNAMENT_ACTIONS[number];
+
 // Configuration for different particle groups (Ornaments, Gifts, Candies)
 export interface ParticleGroupConfig {
+  name?: string;
   count: number;
   color: string;
   metalness: number;
   roughness: number;
-  geometryType: 'sphere' | 'box' | 'cylinder' | 'dodecahedron' | 'giftBox' | 'candyCane';
+  geometryType: GeometryType;
   scaleMultiplier: number;
   emissiveIntensity?: number;
   envMapIntensity?: number;
-}
\ No newline at end of file
+  // Colour of accent parts such as ribbons, caps and hooks (default gold)
+  accentColor?: string;
+  // Run when one of the group's ornaments is clicked (none: not clickable)
+  clickActions?: OrnamentAction[];
+  // Messages for the 'greeting' action, handed out to ornaments in turn
+  greetings?: string[];
+}
+
+export type Vec3Tuple = [number, number, number];
+
+export const LIGHT_TYPES = ['ambient', 'point', 'spot', 'directional'] as const;
+export type LightType = typeof LIGHT_TYPES[number];
+
+export interface LightConfig {
+  type: LightType;
+  color: string;
+  intensity: number;
+  position?: Vec3Tuple;
+  // Spot light only
+  angle?: number;
+  penumbra?: number;
+  castShadow?: boolean;
+  // Point / spot falloff
+  distance?: number;
+  decay?: number;
+}
+
+export interface TopStarConfig {
+  enabled: boolean;
+  color: string;
+  emissive: string;
+  lightColor: string;
+  lightIntensity: number;
+}
+
+export const LOGO_MATERIALS = ['glow', 'velvet'] as const;
+export type LogoMaterial = typeof LOGO_MATERIALS[number];
+
+// One line of the brand block. Give either `text` or `image`.
+export interface LogoLine {
+  text?: string;
+  // Image or SVG served with the app, e.g. '/branding/logo.svg'
+  image?: string;
+  // Height of the line in world units (the font size for text)
+  size: number;
+  material: LogoMaterial;
+  // Tint for glow, surface colour for velvet
+  color?: string;
+  // CSS font family and weight for text lines
+  fontFamily?: string;
+  fontWeight?: string;
+  // Break the text into one piece per character, each scattering on its own
+  splitCharacters?: boolean;
+  // Extra gap between split characters, in world units
+  letterSpacing?: number;
+}
+
+export interface LogoConfig {
+  enabled: boolean;
+  lines: LogoLine[];
+  // Vertical gap between lines, in world units
+  lineGap: number;
+}
+
+// A greeting the show spells out in ornaments (see shapes/textShape.ts)
+export interface MessageConfig {
+  enabled: boolean;
+  // Lines are split on '\n'; any script the browser has fonts for works
+  text: string;
+  // CSS font family and weight
+  fontFamily?: string;
+  fontWeight?: string;
+  // Seconds the message is held before the tree reforms
+  hold: number;
+}
+
+// A daily stretch of the screen's local time, as 24-hour "HH:MM". Runs past
+// midnight when `end` is earlier than `start`.
+export interface DailyWindow {
+  start: string;
+  end: string;
+}
+
+// Unattended full-screen signage (see utils/kiosk.ts). Also turned on by
+// `?kiosk` in the URL.
+export interface KioskConfig {
+  enabled: boolean;
+  // Brightness (0..1) within opening hours, and outside them
+  openingHours: DailyWindow;
+  openBrightness: number;
+  nightBrightness: number;
+  // The screen goes black and stops rendering (null: never)
+  lightsOff: DailyWindow | null;
+  // Seconds a brightness change fades over
+  fadeSeconds: number;
+  // The show resumes after this long without a touch...
+  idleSeconds: number;
+  // ...and, while it runs unattended, replays its opening this often
+  attractSeconds: number;
+  // Burn-in protection: the picture drifts by up to `shiftPixels` and the
+  // logo by up to `logoShift` world units, over `shiftPeriodMinutes`
+  shiftPixels: number;
+  logoShift: number;
+  shiftPeriodMinutes: number;
+}
+
+export const BLINK_PATTERNS = ['twinkle', 'chase', 'wave', 'alternate', 'fade'] as const;
+export type BlinkPattern = typeof BLINK_PATTERNS[number];
+
+// One strand of fairy lights spiralling up the tree cone
+export interface LightStrandConfig {
+  bulbs: number;
+  // Times the strand wraps around the tree, bottom to top
+  turns: number;
+  // Where around the trunk it starts, in turns (0..1)
+  phase: number;
+  bulbSize: number;
+  // Bulbs cycle through these colours along the strand
+  colors: string[];
+  pattern: BlinkPattern;
+  // Pattern speed multiplier
+  speed: number;
+  // Peak brightness; above 1 the bulbs bloom
+  intensity: number;
+}
+
+export interface StringLightsConfig {
+  enabled: boolean;
+  strands: LightStrandConfig[];
+}
+
+export interface SnowWindConfig {
+  // Steady wind, in world units per second
+  velocity: Vec3Tuple;
+  // Gusts add up to this much speed along the wind...
+  gustStrength: number;
+  // ...about once every this many seconds
+  gustInterval: number;
+  // Swirling speed added on top, varying through the air
+  turbulence: number;
+}
+
+// Snow settling on the branches and the floor while the tree stands
+export interface SnowAccumulationConfig {
+  enabled: boolean;
+  // Most settled flakes at once
+  maxFlakes: number;
+  // Seconds from a bare tree to full cover
+  buildUpSeconds: number;
+  // How hard the cover (and nearby falling snow) is blown off when the tree scatters
+  burstSpeed: number;
+}
+
+export interface SnowConfig {
+  enabled: boolean;
+  // Flakes in the air; sets how dense the snowfall looks
+  count: number;
+  // Fall speed multiplier
+  fallSpeed: number;
+  wind: SnowWindConfig;
+  accumulation: SnowAccumulationConfig;
+}
+
+// Background starfield (drei <Stars />)
+export interface StarfieldConfig {
+  enabled: boolean;
+  radius: number;
+  depth: number;
+  count: number;
+  factor: number;
+  saturation: number;
+  speed: number;
+}
+
+export interface ContactShadowsConfig {
+  enabled: boolean;
+  opacity: number;
+  scale: number;
+  blur: number;
+  far: number;
+  resolution: number;
+}
+
+export interface PostProcessingConfig {
+  bloom: {
+    enabled: boolean;
+    luminanceThreshold: number;
+    intensity: number;
+    radius: number;
+  };
+  noise: {
+    enabled: boolean;
+    opacity: number;
+  };
+  vignette: {
+    enabled: boolean;
+    offset: number;
+    darkness: number;
+  };
+}
+
+// The pointer pushes nearby ornaments aside (or swirls them while
+// scattered); each one springs back to its place in the formation
+export interface PointerFieldConfig {
+  enabled: boolean;
+  // World units around the pointer ray that feel the push
+  radius: number;
+  strength: number;
+  // Spring pulling ornaments home, and how quickly they stop wobbling
+  stiffness: number;
+  damping: number;
+}
+
+// Plays a named camera shot whenever the tree changes to a given formation
+export interface CameraDirectorConfig {
+  enabled: boolean;
+  // Formation id -> shot id
+  shots: Record<string, string>;
+  // Seconds to blend back to orbit control once a shot ends
+  blendBack: number;
+}
+
+export const QUALITY_TIERS = ['low', 'medium', 'high', 'ultra'] as const;
+export type QualityTier = typeof QUALITY_TIERS[number];
+
+// What a quality tier scales or switches off (see config/quality.ts)
+export interface QualitySettings {
+  // Multiplies particle group counts and string light bulbs
+  particles: number;
+  snow: number;
+  stars: number;
+  // Multiplies the segment counts of curved ornament geometries
+  detail: number;
+  // Device pixel ratio range the canvas may render at
+  dpr: [number, number];
+  // Shadow maps cast by the lights
+  shadows: boolean;
+  contactShadows: boolean;
+  bloom: boolean;
+  noise: boolean;
+}
+
+// Colour scheme laid over a scene config (see config/themes.ts)
+export interface ThemePreset {
+  id: string;
+  label: string;
+  background: string;
+  // Ornament colours, handed to the particle groups in order (repeating)
+  palette: string[];
+  // Ribbons, caps, hooks and clappers
+  accent: string;
+  // Glow of every ornament
+  emissiveIntensity: number;
+  // Light colours, handed to the scene lights in order (repeating)
+  lights: string[];
+  // Multiplies every light's intensity
+  lightIntensity: number;
+  topStar: Pick<TopStarConfig, 'color' | 'emissive' | 'lightColor'>;
+  bloom: Pick<PostProcessingConfig['bloom'], 'intensity' | 'luminanceThreshold'>;
+}
+
+// Complete, data-driven description of everything the Scene renders
+export interface SceneConfig {
+  // Layout seed: the same seed always produces the same tree
+  seed: number;
+  // A fixed tier, or 'auto' to follow the frame rate
+  quality: QualityTier | 'auto';
+  // Theme preset laid over the colours below (none: use them as written)
+  theme?: string;
+  background: string;
+  camera: {
+    position: Vec3Tuple;
+    fov: number;
+    director: CameraDirectorConfig;
+  };
+  environmentPreset: EnvironmentPreset;
+  groups: ParticleGroupConfig[];
+  lights: LightConfig[];
+  topStar: TopStarConfig;
+  logo: LogoConfig;
+  message: MessageConfig;
+  kiosk: KioskConfig;
+  stringLights: StringLightsConfig;
+  snow: SnowConfig;
+  starfield: StarfieldConfig;
+  contactShadows: ContactShadowsConfig;
+  pointerField: PointerFieldConfig;
+  postProcessing: PostProcessingConfig;
+}
+
+export const ENVIRONMENT_PRESETS = [
+  'apartment', 'city', 'dawn', 'forest', 'lobby', 'night', 'park', 'studio', 'sunset', 'warehouse',
+] as const;
+export type EnvironmentPreset = typeof ENVIRONMENT_PRESETS[number];
@@ -0,0 +1,110 @@
+// Live loudness of the music, written once per frame and read by the scene.
+// All levels are 0..1.
+export interface AudioLevels {
+  active: boolean;
+  bass: number;
+  mids: number;
+  highs: number;
+  // Jumps to 1 on each detected beat and decays back to 0
+  beat: number;
+}
+
+export const createAudioLevels = (): AudioLevels => ({ active: false, bass: 0, mids: 0, highs: 0, beat: 0 });
+
+export interface AudioAnalyser {
+  // Updates `levels` from the latest spectrum; `delta` is seconds since the last call
+  sample: (levels: AudioLevels, delta: number) => void;
+  dispose: () => void;
+}
+
+// Frequency bands in Hz
+const BASS: [number, number] = [20, 150];
+const MIDS: [number, number] = [400, 2000];
+const HIGHS: [number, number] = [4000, 12000];
+
+// A beat is bass this much louder than its recent average...
+const BEAT_THRESHOLD = 1.35;
+// ...and at least this loud, with no other beat in the last BEAT_COOLDOWN seconds
+const BEAT_MIN_LEVEL = 0.3;
+const BEAT_COOLDOWN = 0.25;
+// Rate at which the beat envelope and the running bass average settle
+const BEAT_DECAY = 6;
+const AVERAGE_RATE = 1.5;
+
+const createAnalyser = (
+  context: AudioContext,
+  source: AudioNode,
+  dispose: () => void
+): AudioAnalyser => {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  analyser.smoothingTimeConstant = 0.6;
+  source.connect(analyser);
+
+  const spectrum = new Uint8Array(analyser.frequencyBinCount);
+  const binHz = context.sampleRate / analyser.fftSize;
+  const band = ([from, to]: [number, number]) => {
+    const first = Math.max(0, Math.floor(from / binHz));
+    const last = Math.min(spectrum.length - 1, Math.ceil(to / binHz));
+    let sum = 0;
+    for (let i = first; i <= last; i++) sum += spectrum[i];
+    return sum / ((last - first + 1) * 255);
+  };
+
+  let averageBass = 0;
+  let sinceBeat = Infinity;
+
+  return {
+    sample: (levels, delta) => {
+      analyser.getByteFrequencyData(spectrum);
+      levels.active = true;
+      levels.bass = band(BASS);
+      levels.mids = band(MIDS);
+      levels.highs = band(HIGHS);
+
+      sinceBeat += delta;
+      if (levels.bass > averageBass * BEAT_THRESHOLD && levels.bass > BEAT_MIN_LEVEL && sinceBeat > BEAT_COOLDOWN) {
+        levels.beat = 1;
+        sinceBeat = 0;
+      } else {
+        levels.beat *= Math.exp(-delta * BEAT_DECAY);
+      }
+      averageBass += (levels.bass - averageBass) * Math.min(1, delta * AVERAGE_RATE);
+    },
+    dispose: () => {
+      source.disconnect();
+      analyser.disconnect();
+      dispose();
+      context.close();
+    },
+  };
+};
+
+// Listens to the default microphone (nothing is played back)
+export const connectMicrophone = async (): Promise<AudioAnalyser> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(stream);
+  return createAnalyser(context, source, () => stream.getTracks().forEach((track) => track.stop()));
+};
+
+// Plays a local music file on loop and listens to it
+export const connectAudioFile = async (file: File): Promise<AudioAnalyser> => {
+  const url = URL.createObjectURL(file);
+  const audio = new Audio(url);
+  audio.loop = true;
+  const context = new AudioContext();
+  const source = context.createMediaElementSource(audio);
+  source.connect(context.destination);
+  try {
+    await audio.play();
+  } catch (e) {
+    URL.revokeObjectURL(url);
+    context.close();
+    throw e;
+  }
+  return createAnalyser(context, source, () => {
+    audio.pause();
+    URL.revokeObjectURL(url);
+  });
+};
@@ -0,0 +1,87 @@
+import * as THREE from 'three';
+import { BLINK_PATTERNS, BlinkPattern } from '../types';
+import { createMorphShader, MorphUniforms } from './morphShader';
+
+export interface BulbUniforms {
+  // Index into BLINK_PATTERNS
+  uPattern: THREE.IUniform<number>;
+  uBlinkSpeed: THREE.IUniform<number>;
+  uIntensity: THREE.IUniform<number>;
+}
+
+export const createBulbUniforms = (pattern: BlinkPattern, speed: number, intensity: number): BulbUniforms => ({
+  uPattern: { value: BLINK_PATTERNS.indexOf(pattern) },
+  uBlinkSpeed: { value: speed },
+  uIntensity: { value: intensity },
+});
+
+// aBulb: x = 0..1 along the strand, y = bulb index, z = random 0..1.
+// Placed just before main() so it can use the morph shader's uTime.
+const BULB_VERTEX_PARS = /* glsl */ `
+attribute vec3 aBulb;
+uniform int uPattern;
+uniform float uBlinkSpeed;
+uniform float uIntensity;
+varying float vBulbBrightness;
+
+// Branches follow the order of BLINK_PATTERNS in types.ts
+float bulbBrightness() {
+  float t = uTime * uBlinkSpeed;
+  // twinkle: each bulb flickers at its own rate
+  if (uPattern == 0) {
+    float s = 0.5 + 0.5 * sin(t * (2.0 + aBulb.z * 3.0) + aBulb.z * 40.0);
+    return 0.15 + 0.85 * s * s * s;
+  }
+  // chase: every third bulb lights up in turn, running up the strand
+  if (uPattern == 1) {
+    return mod(aBulb.y - floor(t * 4.0), 3.0) < 1.0 ? 1.0 : 0.1;
+  }
+  // wave: a band of light travels along the strand
+  if (uPattern == 2) {
+    return 0.15 + 0.85 * (0.5 + 0.5 * sin(aBulb.x * 25.0 - t * 3.0));
+  }
+  // alternate: odd and even bulbs swap every second
+  if (uPattern == 3) {
+    return mod(aBulb.y + floor(t), 2.0) < 1.0 ? 1.0 : 0.1;
+  }
+  // fade: the whole strand breathes
+  return 0.2 + 0.8 * (0.5 + 0.5 * sin(t * 2.0));
+}
+
+void main() {`;
+
+const BULB_VERTEX = /* glsl */ `
+#include <fog_vertex>
+vBulbBrightness = bulbBrightness() * uIntensity;
+`;
+
+const BULB_FRAGMENT_PARS = /* glsl */ `
+#include <common>
+varying float vBulbBrightness;
+`;
+
+const BULB_COLOR = /* glsl */ `
+#include <color_fragment>
+diffuseColor.rgb *= vBulbBrightness;
+`;
+
+/**
+ * The morph shader plus blink patterns, for an unlit (MeshBasicMaterial)
+ * bulb whose colour comes from the instance colours.
+ */
+export const createBulbShader = (morphUniforms: MorphUniforms, bulbUniforms: BulbUniforms) => {
+  const morph = createMorphShader(morphUniforms);
+  return {
+    onBeforeCompile: (shader: THREE.WebGLProgramParametersWithUniforms) => {
+      morph.onBeforeCompile(shader);
+      Object.assign(shader.uniforms, bulbUniforms);
+      shader.vertexShader = shader.vertexShader
+        .replace('void main() {', BULB_VERTEX_PARS)
+        .replace('#include <fog_vertex>', BULB_VERTEX);
+      shader.fragmentShader = shader.fragmentShader
+        .replace('#include <common>', BULB_FRAGMENT_PARS)
+        .replace('#include <color_fragment>', BULB_COLOR);
+    },
+    customProgramCacheKey: () => 'string-light-bulb',
+  };
+};
@@ -0,0 +1,38 @@
+import { MorphTarget, SceneConfig } from '../types';
+import { getShape } from '../shapes';
+
+// How a formation is read out, e.g. "a heart"
+export const describeFormation = (state: MorphTarget): string => {
+  const shape = getShape(state);
+  return shape.description ?? shape.label;
+};
+
+// Announced once the ornaments have arrived in `state`
+export const describeArrival = (state: MorphTarget): string => `Now showing ${describeFormation(state)}.`;
+
+/**
+ * A text stand-in for the canvas, for screen readers: what is on screen,
+ * built from the config, and how to control it.
+ */
+export const describeScene = (config: SceneConfig, state: MorphTarget): string => {
+  const ornaments = config.groups.reduce((total, group) => total + group.count, 0);
+  const logoText = config.logo.lines
+    .map((line) => line.text)
+    .filter((text): text is string => !!text)
+    .join(', ');
+
+  return [
+    `An animated 3D holiday scene: ${ornaments} glittering ornaments, now showing ${describeFormation(state)}.`,
+    config.topStar.enabled && 'A glowing star crowns the formation.',
+    config.stringLights.enabled && 'Strands of fairy lights twinkle around it.',
+    config.logo.enabled && logoText && `Below it, the logo reads: ${logoText}.`,
+    config.snow.enabled && 'Snow is falling.',
+    'The ornaments keep moving between formations, such as a Christmas tree, a heart and a star.',
+    // Signage screens have no show or recording controls to offer
+    config.kiosk.enabled
+      ? 'Press space or enter for the next formation and the arrow keys to turn the view.'
+      : 'Press space or enter for the next formation, the arrow keys to turn the view, P to pause or resume the show and R to record a video.',
+  ]
+    .filter(Boolean)
+    .join(' ');
+};
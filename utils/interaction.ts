@@ -0,0 +1,49 @@
+// Notes of a C major pentatonic scale (C5..A6), so any mix of chimes sounds right
+export const CHIME_NOTES = [523.25, 587.33, 659.25, 783.99, 880, 1046.5, 1174.66, 1318.51, 1567.98, 1760];
+
+// Bell partials as [frequency ratio, relative gain]
+const PARTIALS: [number, number][] = [
+  [1, 1],
+  [2.76, 0.4],
+  [5.4, 0.2],
+];
+const CHIME_SECONDS = 1.8;
+
+let chimeContext: AudioContext | null = null;
+
+// Rings a small synthesised bell. Needs a user gesture first (the click).
+export const playChime = (frequency: number) => {
+  chimeContext ??= new AudioContext();
+  const context = chimeContext;
+  const now = context.currentTime;
+  const output = context.createGain();
+  output.gain.setValueAtTime(0.2, now);
+  output.gain.exponentialRampToValueAtTime(0.0001, now + CHIME_SECONDS);
+  output.connect(context.destination);
+
+  PARTIALS.forEach(([ratio, gain]) => {
+    const oscillator = context.createOscillator();
+    const partialGain = context.createGain();
+    oscillator.frequency.value = frequency * ratio;
+    partialGain.gain.value = gain;
+    oscillator.connect(partialGain).connect(output);
+    oscillator.start(now);
+    oscillator.stop(now + CHIME_SECONDS);
+  });
+};
+
+// Shows the hand cursor while something clickable is under the pointer
+export const setHoverCursor = (hovering: boolean) => {
+  document.body.style.cursor = hovering ? 'pointer' : '';
+};
+
+// The key of a keyboard shortcut, or null when the key is meant for
+// something else: typing in a field, a modified key (browser shortcuts) or
+// space and enter on a focused button
+export const shortcutKey = (event: KeyboardEvent): string | null => {
+  if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return null;
+  const target = event.target instanceof Element ? event.target : null;
+  if (target?.closest('input, textarea, select, [contenteditable="true"]')) return null;
+  if ((event.key === ' ' || event.key === 'Enter') && target?.closest('button, a, summary')) return null;
+  return event.key;
+};
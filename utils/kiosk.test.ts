@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { defaultSceneConfig } from '../config/defaultScene';
+import { burnInDrift, inDailyWindow, isClockTime, kioskScheduleAt } from './kiosk';
+
+const at = (time: string) => new Date(`2026-12-24T${time}:00`);
+const kiosk = { ...defaultSceneConfig.kiosk, enabled: true };
+
+describe('kiosk schedule', () => {
+  it('reads 24-hour times only', () => {
+    expect(isClockTime('09:30')).toBe(true);
+    expect(isClockTime('23:59')).toBe(true);
+    expect(isClockTime('24:00')).toBe(false);
+    expect(isClockTime('9:30')).toBe(false);
+  });
+
+  it('includes the start of a window and excludes its end', () => {
+    const window = { start: '09:00', end: '21:00' };
+    expect(inDailyWindow(window, at('09:00'))).toBe(true);
+    expect(inDailyWindow(window, at('20:59'))).toBe(true);
+    expect(inDailyWindow(window, at('21:00'))).toBe(false);
+    expect(inDailyWindow(window, at('08:59'))).toBe(false);
+  });
+
+  it('runs windows past midnight', () => {
+    const window = { start: '23:00', end: '07:00' };
+    expect(inDailyWindow(window, at('23:30'))).toBe(true);
+    expect(inDailyWindow(window, at('03:00'))).toBe(true);
+    expect(inDailyWindow(window, at('07:00'))).toBe(false);
+    expect(inDailyWindow(window, at('12:00'))).toBe(false);
+  });
+
+  it('follows opening hours, night dimming and lights off', () => {
+    expect(kioskScheduleAt(kiosk, at('12:00'))).toEqual({ brightness: kiosk.openBrightness, lightsOff: false });
+    expect(kioskScheduleAt(kiosk, at('22:00'))).toEqual({ brightness: kiosk.nightBrightness, lightsOff: false });
+    expect(kioskScheduleAt(kiosk, at('02:00'))).toEqual({ brightness: 0, lightsOff: true });
+    expect(kioskScheduleAt({ ...kiosk, lightsOff: null }, at('02:00')).lightsOff).toBe(false);
+  });
+
+  it('stays at full brightness when kiosk mode is off', () => {
+    expect(kioskScheduleAt(defaultSceneConfig.kiosk, at('02:00'))).toEqual({ brightness: 1, lightsOff: false });
+  });
+});
+
+describe('burn-in drift', () => {
+  it('stays within its range and moves slowly', () => {
+    for (let minute = 0; minute < 24 * 60; minute += 7) {
+      const [x, y] = burnInDrift(90, minute * 60000);
+      expect(Math.abs(x)).toBeLessThanOrEqual(1);
+      expect(Math.abs(y)).toBeLessThanOrEqual(1);
+      const [nextX, nextY] = burnInDrift(90, (minute + 1) * 60000);
+      expect(Math.hypot(nextX - x, nextY - y)).toBeLessThan(0.1);
+    }
+  });
+});
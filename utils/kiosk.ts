@@ -0,0 +1,51 @@
+import { DailyWindow, KioskConfig } from '../types';
+
+export const isClockTime = (value: unknown): value is string =>
+  typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+// Minutes past midnight of an "HH:MM" time
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Whether `date` falls in `window` (start inclusive, end exclusive)
+export const inDailyWindow = (window: DailyWindow, date: Date) => {
+  const now = date.getHours() * 60 + date.getMinutes();
+  const start = minutesOf(window.start);
+  const end = minutesOf(window.end);
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+};
+
+export interface KioskSchedule {
+  // 0 (black) to 1 (full)
+  brightness: number;
+  // Black screen, nothing rendered
+  lightsOff: boolean;
+}
+
+const ALWAYS_ON: KioskSchedule = { brightness: 1, lightsOff: false };
+
+// What the programme asks for at `date`. Lights-off wins over opening hours.
+export const kioskScheduleAt = (kiosk: KioskConfig, date: Date): KioskSchedule => {
+  if (!kiosk.enabled) return ALWAYS_ON;
+  if (kiosk.lightsOff && inDailyWindow(kiosk.lightsOff, date)) return { brightness: 0, lightsOff: true };
+  return {
+    brightness: inDailyWindow(kiosk.openingHours, date) ? kiosk.openBrightness : kiosk.nightBrightness,
+    lightsOff: false,
+  };
+};
+
+/**
+ * Burn-in drift at wall-clock `time` (ms): a slow Lissajous path over
+ * [-1, 1] on both axes, one lap of x every `periodMinutes`. The axes run at
+ * unrelated rates so the path takes a long time to repeat; a different
+ * `phase` sends something along another part of it.
+ */
+export const burnInDrift = (periodMinutes: number, time: number, phase = 0): [number, number] => {
+  const turns = time / (periodMinutes * 60000) + phase;
+  return [Math.sin(turns * Math.PI * 2), Math.sin((turns * 0.618 + phase) * Math.PI * 2)];
+};
+
+// `?kiosk` in the URL turns kiosk mode on without editing the config
+export const kioskFromUrl = () => new URLSearchParams(window.location.search).has('kiosk');
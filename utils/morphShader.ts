@@ -0,0 +1,255 @@
+import * as THREE from 'three';
+import { EASINGS } from '../types';
+import { EASING_FUNCTIONS } from './transition';
+import { floatOffset } from '../layout/motion';
+
+// Length of the pop / spin played on a clicked ornament
+export const CLICK_SECONDS = 1.2;
+// How far a popped ornament jumps out, and how much a hovered one grows
+const POP_DISTANCE = 1.5;
+const HOVER_SCALE = 1.25;
+
+// Uniforms driving every instance of one MorphingGroup. The same objects are
+// handed to all of the group's materials (main mesh, gift box ribbons, shadow
+// depth), so writing `.value` once per frame updates them all.
+export interface MorphUniforms {
+  uTime: THREE.IUniform<number>;
+  // Transition time as a share of its duration (1 = every instance arrived)
+  uProgress: THREE.IUniform<number>;
+  // Share of the duration spread out over the per-instance delays
+  uStagger: THREE.IUniform<number>;
+  // Index into EASINGS (types.ts)
+  uEasing: THREE.IUniform<number>;
+  // Float wobble strength at either end of the transition
+  uFloatFrom: THREE.IUniform<number>;
+  uFloatTo: THREE.IUniform<number>;
+  // Radians per second added to the x/y spin seeds
+  uSpinSpeed: THREE.IUniform<number>;
+  // Multiplies every instance's own size (aScale)
+  uScale: THREE.IUniform<number>;
+  // Outward kick applied on music beats, 0..1
+  uBounce: THREE.IUniform<number>;
+  // Instance under the pointer (-1 for none)
+  uHover: THREE.IUniform<number>;
+  // Last clicked instance (-1 for none), seconds since the click, and
+  // whether the click pops and/or spins it (0 or 1)
+  uClicked: THREE.IUniform<number>;
+  uClickTime: THREE.IUniform<number>;
+  uClickPop: THREE.IUniform<number>;
+  uClickSpin: THREE.IUniform<number>;
+}
+
+export const createMorphUniforms = (spinSpeed: number): MorphUniforms => ({
+  uTime: { value: 0 },
+  uProgress: { value: 1 },
+  uStagger: { value: 0 },
+  uEasing: { value: 0 },
+  uFloatFrom: { value: 1 },
+  uFloatTo: { value: 1 },
+  uSpinSpeed: { value: spinSpeed },
+  uScale: { value: 1 },
+  uBounce: { value: 0 },
+  uHover: { value: -1 },
+  uClicked: { value: -1 },
+  uClickTime: { value: CLICK_SECONDS },
+  uClickPop: { value: 0 },
+  uClickSpin: { value: 0 },
+});
+
+// Per-instance attributes, all InstancedBufferAttributes:
+//   aMorphFrom  vec3  position when the current transition started
+//   aMorphTo    vec3  position in the target formation
+//   aSpin       vec3  euler (XYZ) rotation seed
+//   aScale      float uniform scale, times uScale
+//   aFloatPhase vec2  phase offsets for the float wobble
+//   aDelay      float when this instance starts moving, 0..1 of the stagger
+//   aOffset     vec3  push from the pointer field (see utils/pointerField.ts)
+const MORPH_PARS = /* glsl */ `
+#include <common>
+attribute vec3 aMorphFrom;
+attribute vec3 aMorphTo;
+attribute vec3 aSpin;
+attribute float aScale;
+attribute vec2 aFloatPhase;
+attribute float aDelay;
+attribute vec3 aOffset;
+uniform float uTime;
+uniform float uProgress;
+uniform float uStagger;
+uniform int uEasing;
+uniform float uFloatFrom;
+uniform float uFloatTo;
+uniform float uSpinSpeed;
+uniform float uScale;
+uniform float uBounce;
+uniform float uHover;
+uniform float uClicked;
+uniform float uClickTime;
+uniform float uClickPop;
+uniform float uClickSpin;
+varying float vHighlight;
+
+bool isInstance(float id) {
+  return abs(float(gl_InstanceID) - id) < 0.5;
+}
+
+// 0..1 through this instance's click animation (1 when idle)
+float clickProgress() {
+  return isInstance(uClicked) ? clamp(uClickTime / ${CLICK_SECONDS.toFixed(2)}, 0.0, 1.0) : 1.0;
+}
+
+// Same matrix as THREE.Matrix4.makeRotationFromEuler with order XYZ
+mat3 morphRotation() {
+  vec3 e = vec3(aSpin.xy + uTime * uSpinSpeed, aSpin.z);
+  // Two full turns, so the ornament ends up where it started
+  e.y += uClickSpin * smoothstep(0.0, 1.0, clickProgress()) * 4.0 * PI;
+  float a = cos(e.x), b = sin(e.x);
+  float c = cos(e.y), d = sin(e.y);
+  float g = cos(e.z), f = sin(e.z);
+  float ag = a * g, af = a * f, bg = b * g, bf = b * f;
+  return mat3(
+    c * g, af + bg * d, bf - ag * d,
+    -c * f, ag - bf * d, bg + af * d,
+    d, -b * c, a * c
+  );
+}
+
+// Mirrors EASING_FUNCTIONS in utils/transition.ts
+float morphEase(float t) {
+  if (uEasing == 1) {
+    return t < 0.5 ? 4.0 * t * t * t : 1.0 - pow(2.0 - 2.0 * t, 3.0) / 2.0;
+  }
+  if (uEasing == 2) {
+    float u = t - 1.0;
+    return 1.0 + 2.70158 * u * u * u + 1.70158 * u * u;
+  }
+  if (uEasing == 3) {
+    if (t <= 0.0) return 0.0;
+    if (t >= 1.0) return 1.0;
+    return pow(2.0, -10.0 * t) * sin((t * 10.0 - 0.75) * 2.0943951) + 1.0;
+  }
+  return t;
+}
+
+vec3 morphOffset() {
+  float localT = clamp((uProgress - aDelay * uStagger) / (1.0 - uStagger), 0.0, 1.0);
+  float eased = morphEase(localT);
+  float floatIntensity = mix(uFloatFrom, uFloatTo, clamp(eased, 0.0, 1.0));
+  // Same as floatOffset() in layout/motion.ts
+  vec3 wobble = vec3(
+    cos(uTime * 0.5 + aFloatPhase.y),
+    sin(uTime + aFloatPhase.x),
+    0.0
+  ) * 0.5 * floatIntensity;
+  vec3 base = mix(aMorphFrom, aMorphTo, eased);
+  // Beats push ornaments away from the trunk and up, each by its own amount
+  vec3 outward = normalize(vec3(base.x, 0.0, base.z) + vec3(1e-4, 0.0, 0.0)) + vec3(0.0, 0.5, 0.0);
+  vec3 bounce = outward * uBounce * (0.4 + 0.4 * sin(aFloatPhase.x));
+  vec3 pop = outward * uClickPop * sin(clickProgress() * PI) * ${POP_DISTANCE.toFixed(2)};
+  return base + wobble + bounce + pop + aOffset;
+}
+`;
+
+const MORPH_NORMAL = /* glsl */ `
+#include <beginnormal_vertex>
+objectNormal = morphRotation() * objectNormal;
+`;
+
+const MORPH_POSITION = /* glsl */ `
+#include <begin_vertex>
+vHighlight = isInstance(uHover) ? 1.0 : 0.0;
+float hoverScale = mix(1.0, ${HOVER_SCALE.toFixed(2)}, vHighlight);
+transformed = morphRotation() * (transformed * aScale * uScale * hoverScale) + morphOffset();
+`;
+
+const HIGHLIGHT_PARS = /* glsl */ `
+#include <common>
+varying float vHighlight;
+`;
+
+// Hovered ornaments glow in their own colour (materials without emission,
+// like the shadow depth material, don't have this chunk and skip it)
+const HIGHLIGHT_EMISSIVE = /* glsl */ `
+#include <emissivemap_fragment>
+totalEmissiveRadiance += diffuseColor.rgb * vHighlight * 0.6;
+`;
+
+/**
+ * Material hooks that move each instance on the GPU from the attributes
+ * above. Spread onto a material (or Object.assign onto one created in code);
+ * the instance matrices are left as identity.
+ */
+export const createMorphShader = (uniforms: MorphUniforms) => ({
+  onBeforeCompile: (shader: THREE.WebGLProgramParametersWithUniforms) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', MORPH_PARS)
+      .replace('#include <beginnormal_vertex>', MORPH_NORMAL)
+      .replace('#include <begin_vertex>', MORPH_POSITION);
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', HIGHLIGHT_PARS)
+      .replace('#include <emissivemap_fragment>', HIGHLIGHT_EMISSIVE);
+  },
+  customProgramCacheKey: () => 'instance-morph',
+});
+
+export interface MorphAttributes {
+  from: THREE.InstancedBufferAttribute;
+  to: THREE.InstancedBufferAttribute;
+  spin: THREE.InstancedBufferAttribute;
+  scale: THREE.InstancedBufferAttribute;
+  floatPhase: THREE.InstancedBufferAttribute;
+  delay: THREE.InstancedBufferAttribute;
+  offset: THREE.InstancedBufferAttribute;
+}
+
+// Adds the shared per-instance attributes to one of the group's geometries
+export const attachMorphAttributes = (geometry: THREE.BufferGeometry, attributes: MorphAttributes) => {
+  geometry.setAttribute('aMorphFrom', attributes.from);
+  geometry.setAttribute('aMorphTo', attributes.to);
+  geometry.setAttribute('aSpin', attributes.spin);
+  geometry.setAttribute('aScale', attributes.scale);
+  geometry.setAttribute('aFloatPhase', attributes.floatPhase);
+  geometry.setAttribute('aDelay', attributes.delay);
+  geometry.setAttribute('aOffset', attributes.offset);
+  return geometry;
+};
+
+const scratch = new THREE.Vector3();
+
+/**
+ * CPU copy of the vertex shader's placement of instance `index` (minus the
+ * music bounce), for picking and for anchoring things to an ornament.
+ */
+export const morphInstancePosition = (
+  attributes: MorphAttributes,
+  uniforms: MorphUniforms,
+  index: number,
+  target = new THREE.Vector3()
+) => {
+  const stagger = uniforms.uStagger.value;
+  const localT = THREE.MathUtils.clamp(
+    (uniforms.uProgress.value - attributes.delay.getX(index) * stagger) / (1 - stagger),
+    0,
+    1
+  );
+  const eased = EASING_FUNCTIONS[EASINGS[uniforms.uEasing.value]](localT);
+  target.fromBufferAttribute(attributes.from, index).lerp(scratch.fromBufferAttribute(attributes.to, index), eased);
+
+  const intensity = THREE.MathUtils.lerp(
+    uniforms.uFloatFrom.value,
+    uniforms.uFloatTo.value,
+    THREE.MathUtils.clamp(eased, 0, 1)
+  );
+  const phase: [number, number] = [attributes.floatPhase.getX(index), attributes.floatPhase.getY(index)];
+  target.add(floatOffset(phase, uniforms.uTime.value, intensity, scratch));
+
+  if (uniforms.uClicked.value === index && uniforms.uClickPop.value > 0) {
+    const clickT = THREE.MathUtils.clamp(uniforms.uClickTime.value / CLICK_SECONDS, 0, 1);
+    scratch.set(target.x, 0, target.z).normalize();
+    scratch.y += 0.5;
+    target.addScaledVector(scratch, Math.sin(clickT * Math.PI) * POP_DISTANCE);
+  }
+  target.add(scratch.fromBufferAttribute(attributes.offset, index));
+  return target;
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { THEME_PRESETS } from '../config/themes';
+import { findByName } from './names';
+
+const formations = [
+  { id: 'TREE_SHAPE', label: 'Tree' },
+  { id: 'HEART', label: 'Heart' },
+];
+
+describe('names', () => {
+  it('matches ids and labels in any case', () => {
+    expect(findByName(formations, 'tree')).toBe('TREE_SHAPE');
+    expect(findByName(formations, 'tree_shape')).toBe('TREE_SHAPE');
+    expect(findByName(THEME_PRESETS, 'Rose Gold')).toBe('roseGold');
+    expect(findByName(THEME_PRESETS, 'rose-gold')).toBe('roseGold');
+  });
+
+  it('takes the first theme containing a partial name', () => {
+    expect(findByName(THEME_PRESETS, 'gold')).toBe('classicGold');
+    expect(findByName(THEME_PRESETS, 'rose')).toBe('roseGold');
+    expect(findByName(THEME_PRESETS, 'silver')).toBe('icySilverBlue');
+  });
+
+  it('finds nothing for unknown or empty names', () => {
+    expect(findByName(THEME_PRESETS, 'plaid')).toBeUndefined();
+    expect(findByName(THEME_PRESETS, ' ')).toBeUndefined();
+    expect(findByName(THEME_PRESETS, null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,23 @@
+// Lower case with spaces, dashes and underscores dropped, so "Rose Gold",
+// "rose-gold" and "roseGold" all read the same
+const normalise = (name: string) => name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * The id of the item `name` refers to: an exact id or label, ignoring case
+ * and punctuation ("tree", "Tree" and "TREE_SHAPE" all name the tree
+ * formation), or else the first item, in list order, whose id or label
+ * contains it ("gold" names Classic Gold).
+ */
+export const findByName = <T extends { id: string; label: string }>(
+  items: readonly T[],
+  name: string | null
+): string | undefined => {
+  if (name === null) return undefined;
+  const wanted = normalise(name);
+  if (!wanted) return undefined;
+  const names = (item: T) => [normalise(item.id), normalise(item.label)];
+  return (
+    items.find((item) => names(item).includes(wanted)) ??
+    items.find((item) => names(item).some((itemName) => itemName.includes(wanted)))
+  )?.id;
+};
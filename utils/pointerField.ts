@@ -0,0 +1,216 @@
+import * as THREE from 'three';
+import { PointerFieldConfig } from '../types';
+
+// Rest positions of a settled formation, bucketed into a grid of cubes so
+// the instances near the pointer ray can be found without visiting them all
+export interface PointerFieldRest {
+  // xyz per instance; the float wobble is left out
+  positions: Float32Array;
+  // The field radius the grid was built for
+  radius: number;
+  cellSize: number;
+  // Instances per cell, keyed by cellKey
+  cells: Map<number, number[]>;
+  // Bounds of every cell in use
+  min: THREE.Vector3;
+  dims: THREE.Vector3;
+}
+
+// Per-instance spring state, xyz per instance
+export interface PointerFieldState {
+  offsets: Float32Array;
+  velocities: Float32Array;
+  // Instances away from home or still moving; everything else is skipped
+  active: Set<number>;
+  // Null while the formation is on its way somewhere; nothing is pushed
+  // then, and pushed instances just spring back
+  rest: PointerFieldRest | null;
+}
+
+// `offsets` can be an existing array (e.g. a buffer attribute's) to write
+// into; instances it already pushes aside spring back from where they are
+export const createPointerFieldState = (offsets: Float32Array): PointerFieldState => {
+  const active = new Set<number>();
+  for (let k = 0; k < offsets.length; k++) {
+    if (offsets[k] !== 0) active.add(Math.floor(k / 3));
+  }
+  return { offsets, velocities: new Float32Array(offsets.length), active, rest: null };
+};
+
+const cellKey = (x: number, y: number, z: number, dims: THREE.Vector3) => (x * dims.y + y) * dims.z + z;
+
+/**
+ * Remembers where the first `count` instances rest and sorts them into the
+ * grid. O(count), so it is meant for when a formation has settled, not for
+ * every frame. `positions` is kept, not copied.
+ */
+export const cachePointerFieldRest = (
+  field: PointerFieldState,
+  positions: Float32Array,
+  count: number,
+  radius: number
+) => {
+  // Twice the radius, so the cells next to a ray sample cover the field's
+  // reach (see instancesNearRay)
+  const cellSize = Math.max(radius, 1e-3) * 2;
+  const box = new THREE.Box3().setFromArray(positions.subarray(0, count * 3));
+  const min = box.isEmpty() ? new THREE.Vector3() : box.min;
+  const dims = box.isEmpty()
+    ? new THREE.Vector3(1, 1, 1)
+    : box.getSize(new THREE.Vector3()).divideScalar(cellSize).floor().addScalar(1);
+  const cells = new Map<number, number[]>();
+
+  for (let i = 0; i < count; i++) {
+    const k = i * 3;
+    const key = cellKey(
+      Math.floor((positions[k] - min.x) / cellSize),
+      Math.floor((positions[k + 1] - min.y) / cellSize),
+      Math.floor((positions[k + 2] - min.z) / cellSize),
+      dims
+    );
+    const cell = cells.get(key);
+    if (cell) cell.push(i);
+    else cells.set(key, [i]);
+  }
+
+  field.rest = { positions, radius, cellSize, cells, min, dims };
+};
+
+// First and last instance whose offsets changed, for a partial upload
+export interface PointerFieldUpdate {
+  first: number;
+  last: number;
+}
+
+// Longest step the integrator takes; longer frames are split up
+const MAX_STEP = 1 / 60;
+// Longest frame simulated; the first frame back from a background tab can
+// be seconds long
+const MAX_DELTA = 0.1;
+// Below this (squared offset + velocity) an instance counts as home
+const REST_EPSILON = 1e-6;
+// Share of the swirl force that still pushes outwards
+const SWIRL_PUSH = 0.25;
+
+const point = new THREE.Vector3();
+const closest = new THREE.Vector3();
+const away = new THREE.Vector3();
+const force = new THREE.Vector3();
+const start = new THREE.Vector3();
+const sample = new THREE.Vector3();
+const bounds = new THREE.Box3();
+
+// Instances in the grid cells within reach of `ray`: samples half a cell
+// apart along the stretch of ray inside the grid, and the cells around each.
+// A point within the radius of the ray is then less than a cell from a
+// sample on every axis.
+const instancesNearRay = (rest: PointerFieldRest, ray: THREE.Ray, found: Set<number>) => {
+  const { cellSize, min, dims, cells } = rest;
+  bounds.min.copy(min);
+  bounds.max.copy(dims).multiplyScalar(cellSize).add(min);
+  bounds.expandByScalar(rest.radius);
+  if (bounds.containsPoint(ray.origin)) start.copy(ray.origin);
+  else if (!ray.intersectBox(bounds, start)) return;
+  // No stretch inside the box is longer than its diagonal
+  const length = bounds.getSize(sample).length();
+
+  for (let t = 0; t <= length; t += cellSize / 2) {
+    sample.copy(start).addScaledVector(ray.direction, t);
+    const x = Math.floor((sample.x - min.x) / cellSize);
+    const y = Math.floor((sample.y - min.y) / cellSize);
+    const z = Math.floor((sample.z - min.z) / cellSize);
+    for (let cx = Math.max(0, x - 1); cx <= Math.min(dims.x - 1, x + 1); cx++) {
+      for (let cy = Math.max(0, y - 1); cy <= Math.min(dims.y - 1, y + 1); cy++) {
+        for (let cz = Math.max(0, z - 1); cz <= Math.min(dims.z - 1, z + 1); cz++) {
+          cells.get(cellKey(cx, cy, cz, dims))?.forEach((i) => found.add(i));
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Advances the spring model by `delta` seconds. Instances within
+ * `config.radius` of the pointer ray are pushed away from it (or swirled
+ * around it) while a damped spring pulls each one back to its rest position.
+ * Only instances in grid cells near the ray, or still on their way home,
+ * are visited; returns the range that moved, or null when nothing did.
+ */
+export const stepPointerField = (
+  field: PointerFieldState,
+  config: PointerFieldConfig,
+  count: number,
+  ray: THREE.Ray | null,
+  swirl: boolean,
+  delta: number
+): PointerFieldUpdate | null => {
+  const { offsets, velocities, active, rest } = field;
+  const near = new Set<number>();
+  if (ray && rest) instancesNearRay(rest, ray, near);
+  if (near.size === 0 && active.size === 0) return null;
+  const visit = new Set(near);
+  active.forEach((i) => visit.add(i));
+
+  const frame = Math.min(delta, MAX_DELTA);
+  const steps = Math.max(1, Math.ceil(frame / MAX_STEP));
+  const dt = frame / steps;
+  let first = count;
+  let last = -1;
+
+  for (const i of visit) {
+    if (i >= count) {
+      active.delete(i);
+      continue;
+    }
+    const k = i * 3;
+
+    force.set(0, 0, 0);
+    let pushed = false;
+    // Pushed instances can have left the cells near the ray, so every
+    // visited one is tested
+    if (ray && rest) {
+      point.fromArray(rest.positions, k);
+      point.x += offsets[k];
+      point.y += offsets[k + 1];
+      point.z += offsets[k + 2];
+      ray.closestPointToPoint(point, closest);
+      away.subVectors(point, closest);
+      const distance = away.length();
+      pushed = distance < config.radius;
+      if (pushed) {
+        const falloff = 1 - distance / config.radius;
+        const push = config.strength * falloff * falloff;
+        away.divideScalar(distance || 1);
+        if (swirl) {
+          force.crossVectors(ray.direction, away).multiplyScalar(push).addScaledVector(away, push * SWIRL_PUSH);
+        } else {
+          force.copy(away).multiplyScalar(push);
+        }
+      } else if (!active.has(i)) {
+        continue;
+      }
+    }
+
+    let energy = 0;
+    for (let axis = 0; axis < 3; axis++) {
+      const j = k + axis;
+      for (let s = 0; s < steps; s++) {
+        // Semi-implicit Euler: stable for the stiffness range we use
+        velocities[j] += (force.getComponent(axis) - config.stiffness * offsets[j] - config.damping * velocities[j]) * dt;
+        offsets[j] += velocities[j] * dt;
+      }
+      energy = Math.max(energy, offsets[j] * offsets[j] + velocities[j] * velocities[j]);
+    }
+    if (!pushed && energy < REST_EPSILON) {
+      offsets.fill(0, k, k + 3);
+      velocities.fill(0, k, k + 3);
+      active.delete(i);
+    } else {
+      active.add(i);
+    }
+    first = Math.min(first, i);
+    last = Math.max(last, i);
+  }
+
+  return last >= 0 ? { first, last } : null;
+};
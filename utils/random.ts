@@ -0,0 +1,46 @@
+import { RandomFn } from '../types';
+
+// Hash a string into a 32-bit unsigned integer (FNV-1a)
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Mulberry32: tiny, fast and good enough for layout jitter.
+ * Returns a function producing numbers in [0, 1), like Math.random.
+ */
+export const createRandom = (seed: number): RandomFn => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Independent stream for one consumer of the scene seed. Keying streams by
+ * name (e.g. "group:3:HEART") keeps every layout stable no matter in which
+ * order components mount or formations are first visited.
+ */
+export const randomFor = (seed: number, key: string): RandomFn =>
+  createRandom(hashString(`${seed >>> 0}:${key}`));
+
+// Seeds can be typed by hand ("?seed=acme"), so accept any string
+export const parseSeed = (value: string): number => {
+  const trimmed = value.trim();
+  return /^\d+$/.test(trimmed) ? Number(trimmed) >>> 0 : hashString(trimmed);
+};
+
+// `?seed=` from the page URL, if present
+export const seedFromUrl = (): number | undefined => {
+  const value = new URLSearchParams(window.location.search).get('seed');
+  return value ? parseSeed(value) : undefined;
+};
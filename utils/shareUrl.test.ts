@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { defaultSceneConfig } from '../config/defaultScene';
+import { bakeTheme } from '../config/themes';
+import { applySharedTree, decodeSharedTree, encodeSharedTree, sharedTreeOf } from './shareUrl';
+
+// Through a link and back, as the recipient opens it
+const roundTrip = (config: typeof defaultSceneConfig) =>
+  applySharedTree(defaultSceneConfig, decodeSharedTree(encodeSharedTree(sharedTreeOf(config, defaultSceneConfig))));
+
+describe('share links', () => {
+  it('keeps a theme as its id', () => {
+    const config = { ...defaultSceneConfig, theme: 'roseGold' };
+    expect(encodeSharedTree(sharedTreeOf(config, defaultSceneConfig))).toBe('theme=roseGold');
+    expect(roundTrip(config)).toEqual(config);
+  });
+
+  it('carries colours edited over a theme', () => {
+    const baked = bakeTheme({ ...defaultSceneConfig, theme: 'midnight' });
+    const config = {
+      ...baked,
+      background: '#123456',
+      lights: baked.lights.map((light, i) => (i === 1 ? { ...light, intensity: 2.5 } : light)),
+    };
+    const hash = encodeSharedTree(sharedTreeOf(config, defaultSceneConfig));
+    expect(hash).toBe('theme=midnight&colours=bg%3A123456%2Cl1i%3A2.5');
+    expect(roundTrip(config)).toEqual(config);
+  });
+
+  it('ignores colour edits it cannot place', () => {
+    expect(decodeSharedTree('colours=zz:ffffff,g0:,bi:bright,bg:000000').colours).toEqual({ bg: '#000000' });
+  });
+});
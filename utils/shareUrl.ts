@@ -0,0 +1,251 @@
+import { MorphTarget, QualityTier, SceneConfig } from '../types';
+import { hasShape, registerMessageShape } from '../shapes';
+import { defaultSceneConfig } from '../config/defaultScene';
+import { bakeTheme, hasTheme, THEME_PRESETS } from '../config/themes';
+import { isQuality } from '../config/quality';
+import { parseSeed } from './random';
+
+// What a share link carries. Fields left out keep the app's defaults.
+export interface SharedTree {
+  theme?: string;
+  // Colours edited one by one, by slot key (see colourSlots), over the theme
+  colours?: Record<string, ColourValue>;
+  seed?: number;
+  // Text of the logo's text lines, top to bottom
+  logoText?: string[];
+  // Text of the message spelled out in the show; empty when it is off
+  message?: string;
+  // Formation to open on; the show is paused there
+  state?: MorphTarget;
+  // Whether the show resumes by itself after the idle timeout
+  autoMode?: boolean;
+  quality?: QualityTier | 'auto';
+}
+
+type ColourValue = string | number;
+
+// One value a theme sets and the editor can change on its own
+interface ColourSlot {
+  key: string;
+  kind: 'colour' | 'number';
+  get: (config: SceneConfig) => ColourValue | undefined;
+  set: (config: SceneConfig, value: ColourValue) => SceneConfig;
+}
+
+type GroupField = 'color' | 'accentColor' | 'emissiveIntensity';
+type LightField = 'color' | 'intensity';
+
+const groupSlot = (i: number, suffix: string, field: GroupField, kind: ColourSlot['kind']): ColourSlot => ({
+  key: `g${i}${suffix}`,
+  kind,
+  get: (config) => config.groups[i]?.[field],
+  set: (config, value) => ({
+    ...config,
+    groups: config.groups.map((group, j) => (j === i ? { ...group, [field]: value } : group)),
+  }),
+});
+
+const lightSlot = (i: number, suffix: string, field: LightField, kind: ColourSlot['kind']): ColourSlot => ({
+  key: `l${i}${suffix}`,
+  kind,
+  get: (config) => config.lights[i]?.[field],
+  set: (config, value) => ({
+    ...config,
+    lights: config.lights.map((light, j) => (j === i ? { ...light, [field]: value } : light)),
+  }),
+});
+
+// Keys are short so a link with a few edits stays short: `g0` is the first
+// group's colour, `l1i` the second light's intensity, `st` the star's.
+const colourSlots = (config: SceneConfig): ColourSlot[] => [
+  {
+    key: 'bg',
+    kind: 'colour',
+    get: (c) => c.background,
+    set: (c, background) => ({ ...c, background: String(background) }),
+  },
+  ...config.groups.flatMap((_, i) => [
+    groupSlot(i, '', 'color', 'colour'),
+    groupSlot(i, 'a', 'accentColor', 'colour'),
+    groupSlot(i, 'e', 'emissiveIntensity', 'number'),
+  ]),
+  ...config.lights.flatMap((_, i) => [lightSlot(i, '', 'color', 'colour'), lightSlot(i, 'i', 'intensity', 'number')]),
+  ...(['color', 'emissive', 'lightColor'] as const).map(
+    (field, i): ColourSlot => ({
+      key: ['st', 'se', 'sl'][i],
+      kind: 'colour',
+      get: (c) => c.topStar[field],
+      set: (c, value) => ({ ...c, topStar: { ...c.topStar, [field]: value } }),
+    })
+  ),
+  ...(['intensity', 'luminanceThreshold'] as const).map(
+    (field, i): ColourSlot => ({
+      key: ['bi', 'bt'][i],
+      kind: 'number',
+      get: (c) => c.postProcessing.bloom[field],
+      set: (c, value) => ({
+        ...c,
+        postProcessing: { ...c.postProcessing, bloom: { ...c.postProcessing.bloom, [field]: value } },
+      }),
+    })
+  ),
+];
+
+const sameValue = (a: ColourValue | undefined, b: ColourValue | undefined) =>
+  typeof a === 'string' && typeof b === 'string' ? a.toLowerCase() === b.toLowerCase() : a === b;
+
+// The colours of `config` that differ from `base`
+const colourEdits = (config: SceneConfig, base: SceneConfig): Record<string, ColourValue> => {
+  const edits: Record<string, ColourValue> = {};
+  for (const slot of colourSlots(base)) {
+    const value = slot.get(config);
+    if (value !== undefined && !sameValue(value, slot.get(base))) edits[slot.key] = value;
+  }
+  return edits;
+};
+
+// `key:value` pairs joined by commas; hex colours lose their '#'
+const encodeColours = (colours: Record<string, ColourValue>) =>
+  Object.entries(colours)
+    .map(([key, value]) => {
+      const text = typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? value.slice(1) : String(value);
+      return `${key}:${encodeURIComponent(text)}`;
+    })
+    .join(',');
+
+// Pairs for slots the default scene doesn't have, or with unusable values,
+// are dropped
+const decodeColours = (text: string): Record<string, ColourValue> => {
+  const kinds = new Map(colourSlots(defaultSceneConfig).map((slot) => [slot.key, slot.kind]));
+  const colours: Record<string, ColourValue> = {};
+  for (const pair of text.split(',')) {
+    const split = pair.indexOf(':');
+    const key = pair.slice(0, split);
+    let value: string;
+    try {
+      value = decodeURIComponent(pair.slice(split + 1));
+    } catch {
+      continue;
+    }
+    const kind = split > 0 ? kinds.get(key) : undefined;
+    if (kind === 'number' && value !== '' && Number.isFinite(Number(value))) colours[key] = Number(value);
+    if (kind === 'colour' && value !== '') colours[key] = /^[0-9a-f]{6}$/i.test(value) ? `#${value}` : value;
+  }
+  return colours;
+};
+
+/**
+ * The tree as a URL hash (without the '#'), e.g.
+ * `theme=roseGold&seed=42&state=HEART&auto=0`. Logo lines are joined by
+ * newlines; the message keeps its own. Edited colours are listed as
+ * `colours=g0:ff0000,bi:1.5` over the theme. Parameters are short and
+ * readable so links survive chat apps.
+ */
+export const encodeSharedTree = (tree: SharedTree): string => {
+  const params = new URLSearchParams();
+  if (tree.theme !== undefined) params.set('theme', tree.theme);
+  if (tree.colours !== undefined) params.set('colours', encodeColours(tree.colours));
+  if (tree.seed !== undefined) params.set('seed', String(tree.seed));
+  if (tree.logoText !== undefined) params.set('logo', tree.logoText.join('\n'));
+  if (tree.message !== undefined) params.set('message', tree.message);
+  if (tree.state !== undefined) params.set('state', tree.state);
+  if (tree.autoMode !== undefined) params.set('auto', tree.autoMode ? '1' : '0');
+  if (tree.quality !== undefined) params.set('quality', tree.quality);
+  return params.toString();
+};
+
+// Reads a hash made by encodeSharedTree. Unknown themes, formations and
+// tiers are dropped rather than failing, so an old link still opens.
+export const decodeSharedTree = (hash: string): SharedTree => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const tree: SharedTree = {};
+
+  const theme = params.get('theme');
+  if (theme && hasTheme(theme)) tree.theme = theme;
+  const colours = params.get('colours');
+  if (colours) tree.colours = decodeColours(colours);
+  const seed = params.get('seed');
+  if (seed) tree.seed = parseSeed(seed);
+  const logo = params.get('logo');
+  if (logo !== null) tree.logoText = logo.split('\n');
+  const message = params.get('message');
+  if (message !== null) tree.message = message;
+  // A message's formation is named after its text, so it only exists once
+  // the message the link opens with is registered
+  const opening = applySharedTree(defaultSceneConfig, tree).message;
+  if (opening.enabled) registerMessageShape(opening);
+  const state = params.get('state');
+  if (state && hasShape(state)) tree.state = state;
+  const auto = params.get('auto');
+  if (auto === '0' || auto === '1') tree.autoMode = auto === '1';
+  const quality = params.get('quality');
+  if (quality && isQuality(quality)) tree.quality = quality;
+
+  return tree;
+};
+
+// The share link in the page's hash, if any
+export const sharedTreeFromUrl = (): SharedTree => decodeSharedTree(window.location.hash);
+
+const logoTextOf = (config: SceneConfig) =>
+  config.logo.lines.filter((line) => line.text !== undefined).map((line) => line.text!);
+
+const messageOf = (config: SceneConfig) => (config.message.enabled ? config.message.text : '');
+
+// The config a link opens. Logo text is handed to the text lines in order.
+// Edited colours are written over the baked theme, as the editor does.
+export const applySharedTree = (config: SceneConfig, tree: SharedTree): SceneConfig => {
+  let textLine = 0;
+  const themed = { ...config, theme: tree.theme ?? config.theme };
+  const coloured = tree.colours
+    ? colourSlots(config).reduce(
+        (result, slot) => (tree.colours![slot.key] === undefined ? result : slot.set(result, tree.colours![slot.key])),
+        bakeTheme(themed)
+      )
+    : themed;
+  return {
+    ...coloured,
+    seed: tree.seed ?? config.seed,
+    quality: tree.quality ?? config.quality,
+    message:
+      tree.message === undefined
+        ? config.message
+        : tree.message === ''
+          ? { ...config.message, enabled: false }
+          : { ...config.message, enabled: true, text: tree.message },
+    logo: {
+      ...config.logo,
+      lines: config.logo.lines.map((line) => {
+        if (line.text === undefined || !tree.logoText) return line;
+        const text = tree.logoText[textLine++];
+        return text === undefined ? line : { ...line, text };
+      }),
+    },
+  };
+};
+
+// Colours edited in the editor drop the theme. They are linked as edits over
+// whichever theme they are closest to, so the link stays short.
+const themeAndColours = (config: SceneConfig, defaults: SceneConfig): Pick<SharedTree, 'theme' | 'colours'> => {
+  if (config.theme) return { theme: config.theme !== defaults.theme ? config.theme : undefined };
+  const [closest] = THEME_PRESETS.map(({ id }) => ({
+    id,
+    edits: colourEdits(config, bakeTheme({ ...defaults, theme: id })),
+  })).sort((a, b) => Object.keys(a.edits).length - Object.keys(b.edits).length);
+  return {
+    theme: closest.id !== defaults.theme ? closest.id : undefined,
+    colours: Object.keys(closest.edits).length > 0 ? closest.edits : undefined,
+  };
+};
+
+// The parts of `config` that differ from `defaults`, for a short link
+export const sharedTreeOf = (config: SceneConfig, defaults: SceneConfig): SharedTree => {
+  const logoText = logoTextOf(config);
+  return {
+    ...themeAndColours(config, defaults),
+    seed: config.seed !== defaults.seed ? config.seed : undefined,
+    logoText: logoText.join('\n') !== logoTextOf(defaults).join('\n') ? logoText : undefined,
+    message: messageOf(config) !== messageOf(defaults) ? messageOf(config) : undefined,
+    quality: config.quality !== defaults.quality ? config.quality : undefined,
+  };
+};
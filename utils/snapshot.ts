@@ -0,0 +1,205 @@
+import * as THREE from 'three';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import type { EffectComposer } from 'postprocessing';
+
+export interface SnapshotSize {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const SNAPSHOT_SIZES: Record<string, SnapshotSize> = {
+  '1080p': { label: '1080p', width: 1920, height: 1080 },
+  '4k': { label: '4K', width: 3840, height: 2160 },
+  '8k': { label: '8K', width: 7680, height: 4320 },
+  vertical4k: { label: 'Vertical 4K', width: 2160, height: 3840 },
+};
+
+export interface PrintSize {
+  label: string;
+  // Portrait, in inches
+  widthInches: number;
+  heightInches: number;
+}
+
+export const PRINT_SIZES: Record<string, PrintSize> = {
+  a4: { label: 'A4', widthInches: 8.27, heightInches: 11.69 },
+  a3: { label: 'A3', widthInches: 11.69, heightInches: 16.54 },
+  letter: { label: 'US Letter', widthInches: 8.5, heightInches: 11 },
+  poster: { label: 'Poster 18×24"', widthInches: 18, heightInches: 24 },
+};
+
+export const PRINT_DPIS = [150, 300];
+
+// Longest side we render, whatever the GPU allows: 8K already needs over
+// half a gigabyte of buffers once post-processing is included
+export const MAX_SNAPSHOT_SIDE = 8192;
+
+export const printPixels = (size: PrintSize, dpi: number): SnapshotSize => ({
+  label: `${size.label} @ ${dpi} dpi`,
+  width: Math.round(size.widthInches * dpi),
+  height: Math.round(size.heightInches * dpi),
+});
+
+export const canvasToPng = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('The canvas could not be encoded as PNG'))), 'image/png')
+  );
+
+export interface OffscreenRenderer {
+  // The scene as RGBA rows from the bottom up; the buffer is reused by the
+  // next call
+  render: (scene: THREE.Scene, camera: THREE.PerspectiveCamera) => Uint8Array;
+  dispose: () => void;
+}
+
+/**
+ * Draws the scene at `width`x`height` into render targets of its own,
+ * through the composer's passes when there is post-processing, and reads it
+ * back. The canvas keeps its size and the composer its buffers; only the
+ * passes are sized to the output for each frame and back, so the live view
+ * can keep rendering in between. The targets are kept until dispose(), so a
+ * video export doesn't allocate them for every frame.
+ */
+export const createOffscreenRenderer = (
+  gl: THREE.WebGLRenderer,
+  composer: EffectComposer | null,
+  width: number,
+  height: number
+): OffscreenRenderer => {
+  const options = {
+    type: composer?.inputBuffer.texture.type ?? THREE.HalfFloatType,
+    samples: composer?.multisampling ?? 0,
+  };
+  let input = new THREE.WebGLRenderTarget(width, height, options);
+  let output = new THREE.WebGLRenderTarget(width, height, options);
+  const result = new THREE.WebGLRenderTarget(width, height);
+  const outputPass = new OutputPass();
+  const pixels = new Uint8Array(width * height * 4);
+
+  const render = (scene: THREE.Scene, camera: THREE.PerspectiveCamera) => {
+    const passes = composer?.passes.filter((pass) => pass.enabled) ?? [];
+    const aspect = camera.aspect;
+    camera.aspect = width / height;
+    camera.updateProjectionMatrix();
+
+    try {
+      if (composer) {
+        for (const pass of passes) {
+          const toScreen = pass.renderToScreen;
+          pass.setSize(width, height);
+          pass.renderToScreen = false;
+          pass.render(gl, input, output, 0, false);
+          pass.renderToScreen = toScreen;
+          // Same bookkeeping as the composer: the latest image ends up in `input`
+          if (pass.needsSwap) [input, output] = [output, input];
+        }
+      } else {
+        gl.setRenderTarget(input);
+        gl.clear();
+        gl.render(scene, camera);
+      }
+      // Tone mapping and sRGB, which the canvas would otherwise apply
+      outputPass.render(gl, result, input, 0, false);
+      gl.readRenderTargetPixels(result, 0, 0, width, height, pixels);
+      return pixels;
+    } finally {
+      gl.setRenderTarget(null);
+      const size = gl.getDrawingBufferSize(new THREE.Vector2());
+      for (const pass of passes) pass.setSize(size.width, size.height);
+      camera.aspect = aspect;
+      camera.updateProjectionMatrix();
+    }
+  };
+
+  const dispose = () => [input, output, result, outputPass].forEach((disposable) => disposable.dispose());
+
+  return { render, dispose };
+};
+
+// One frame drawn off screen, for stills
+export const renderOffscreen = (
+  gl: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.PerspectiveCamera,
+  composer: EffectComposer | null,
+  width: number,
+  height: number
+): Uint8Array => {
+  const renderer = createOffscreenRenderer(gl, composer, width, height);
+  try {
+    return renderer.render(scene, camera);
+  } finally {
+    renderer.dispose();
+  }
+};
+
+// Copies pixels read back from WebGL, whose rows run bottom to top, into a
+// canvas of the same size
+export const drawPixels = (canvas: HTMLCanvasElement, pixels: Uint8Array) => {
+  const { width, height } = canvas;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('The frame could not be drawn');
+
+  const image = ctx.createImageData(width, height);
+  const row = width * 4;
+  for (let y = 0; y < height; y++) {
+    image.data.set(pixels.subarray((height - 1 - y) * row, (height - y) * row), y * row);
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+// PNG of pixels read back from WebGL
+export const pixelsToPng = async (pixels: Uint8Array, width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  drawPixels(canvas, pixels);
+  return canvasToPng(canvas);
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const PNG_SIGNATURE_BYTES = 8;
+const PHYS = [0x70, 0x48, 0x59, 0x73]; // "pHYs"
+
+/**
+ * The PNG with a pHYs chunk recording `dpi`, so print and layout software
+ * open it at its intended physical size instead of 72 dpi. Any pHYs chunk
+ * the browser wrote is replaced.
+ */
+export const withDpi = async (png: Blob, dpi: number): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  const phys = new Uint8Array(21);
+  const physView = new DataView(phys.buffer);
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  physView.setUint32(0, 9);
+  phys.set(PHYS, 4);
+  physView.setUint32(8, pixelsPerMetre);
+  physView.setUint32(12, pixelsPerMetre);
+  phys[16] = 1; // Unit: metre
+  physView.setUint32(17, crc32(phys.subarray(4, 17)));
+
+  // Chunks are length, type, data and CRC; IHDR always comes first
+  const parts: BlobPart[] = [bytes.subarray(0, PNG_SIGNATURE_BYTES)];
+  for (let offset = PNG_SIGNATURE_BYTES; offset < bytes.length; ) {
+    const end = offset + 12 + view.getUint32(offset);
+    const type = bytes.subarray(offset + 4, offset + 8);
+    if (!type.every((byte, i) => byte === PHYS[i])) parts.push(bytes.subarray(offset, end));
+    if (offset === PNG_SIGNATURE_BYTES) parts.push(phys);
+    offset = end;
+  }
+  return new Blob(parts, { type: 'image/png' });
+};
@@ -0,0 +1,40 @@
+import * as THREE from 'three';
+import { SnowWindConfig } from '../types';
+import { TREE_BOTTOM } from '../shapes';
+
+// Settled snow lies on a floor just under the tree
+export const SNOW_FLOOR_Y = TREE_BOTTOM - 0.3;
+
+// Seconds the blown-off cover takes to fly away and melt
+export const SNOW_BURST_SECONDS = 2.5;
+
+const windDirection = new THREE.Vector3();
+
+/**
+ * Wind at `time`: the steady velocity plus gusts along it. Gusts are smooth
+ * bumps of uneven strength that depend on time alone, so a replay (video
+ * export) gets the same weather.
+ */
+export const windAt = (wind: SnowWindConfig, time: number, target: THREE.Vector3) => {
+  target.set(...wind.velocity);
+  if (target.lengthSq() > 0) windDirection.copy(target).normalize();
+  else windDirection.set(1, 0, 0);
+
+  const phase = (time / wind.gustInterval) * Math.PI * 2;
+  const bump = Math.pow(Math.max(0, Math.sin(phase)), 4);
+  const strength = 0.6 + 0.4 * Math.sin(phase * 0.37 + 1.3);
+  return target.addScaledVector(windDirection, wind.gustStrength * bump * strength);
+};
+
+// Slowly drifting swirls, so neighbouring flakes don't all move in lockstep
+export const turbulenceAt = (
+  turbulence: number,
+  position: THREE.Vector3,
+  time: number,
+  target: THREE.Vector3
+) =>
+  target.set(
+    Math.sin(position.y * 0.15 + time * 0.7) * turbulence,
+    Math.sin(position.x * 0.1 + position.z * 0.1 + time * 0.4) * turbulence * 0.3,
+    Math.cos(position.x * 0.15 + time * 0.5) * turbulence
+  );
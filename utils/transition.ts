@@ -0,0 +1,71 @@
+import * as THREE from 'three';
+import { EASINGS, EasingName, StaggerPattern, TransitionConfig } from '../types';
+
+export const DEFAULT_TRANSITION: TransitionConfig = {
+  duration: 2,
+  easing: 'easeInOutCubic',
+  stagger: 'none',
+  staggerAmount: 0.6,
+};
+
+// Each easing maps 0..1 to 0..1 (back and elastic overshoot in between).
+// Keep in sync with the GLSL versions in utils/morphShader.ts.
+export const EASING_FUNCTIONS: Record<EasingName, (t: number) => number> = {
+  linear: (t) => t,
+  easeInOutCubic: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  back: (t) => {
+    const c1 = 1.70158;
+    const c3 = c1 + 1;
+    return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2);
+  },
+  elastic: (t) => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    const c4 = (2 * Math.PI) / 3;
+    return Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * c4) + 1;
+  },
+};
+
+// Index used for the easing uniform in the morph shader
+export const easingIndex = (easing: EasingName) => EASINGS.indexOf(easing);
+
+// Every stagger pattern is measured against the same vertical extent, so
+// ornaments, the top star and the logo build up together
+const STAGGER_MIN_Y = -10.5;
+const STAGGER_MAX_Y = 10.5;
+// Full turns the spiral sweep makes from the bottom of the cone to the top
+const SPIRAL_TURNS = 3;
+
+/**
+ * When (0..1, as a share of the stagger window) a particle at `position`
+ * starts moving. `random` is a fixed per-particle value in 0..1 used by the
+ * sparkle pattern.
+ */
+export const staggerDelay = (pattern: StaggerPattern, position: THREE.Vector3, random: number) => {
+  const height = THREE.MathUtils.clamp((position.y - STAGGER_MIN_Y) / (STAGGER_MAX_Y - STAGGER_MIN_Y), 0, 1);
+  switch (pattern) {
+    case 'bottomUp': return height;
+    case 'topDown': return 1 - height;
+    case 'spiral': {
+      const angle = (Math.atan2(position.z, position.x) + Math.PI) / (Math.PI * 2);
+      return (height * SPIRAL_TURNS + angle) / (SPIRAL_TURNS + 1);
+    }
+    case 'random': return random;
+    case 'none': default: return 0;
+  }
+};
+
+// Share of the duration spent staggering for this transition
+export const staggerWindow = (transition: TransitionConfig) =>
+  transition.stagger === 'none' ? 0 : THREE.MathUtils.clamp(transition.staggerAmount, 0, 0.95);
+
+/**
+ * Eased progress of one particle `elapsed` seconds into a transition.
+ * Reaches exactly 1 at `transition.duration` for every particle.
+ */
+export const transitionProgress = (transition: TransitionConfig, elapsed: number, delay: number) => {
+  const progress = transition.duration > 0 ? elapsed / transition.duration : 1;
+  const window = staggerWindow(transition);
+  const local = THREE.MathUtils.clamp((progress - delay * window) / (1 - window), 0, 1);
+  return EASING_FUNCTIONS[transition.easing](local);
+};
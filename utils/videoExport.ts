@@ -0,0 +1,179 @@
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from 'mp4-muxer';
+import { Muxer as WebmMuxer, ArrayBufferTarget as WebmTarget } from 'webm-muxer';
+
+export type VideoFormat = 'mp4' | 'webm';
+
+export interface ExportResolution {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const EXPORT_RESOLUTIONS: Record<string, ExportResolution> = {
+  '1080p': { label: '1080p', width: 1920, height: 1080 },
+  '4k': { label: '4K', width: 3840, height: 2160 },
+  vertical: { label: 'Vertical 1080x1920', width: 1080, height: 1920 },
+};
+
+export interface VideoExportOptions {
+  canvas: HTMLCanvasElement;
+  width: number;
+  height: number;
+  fps: number;
+  // Seconds of video to produce
+  duration: number;
+  format: VideoFormat;
+  // Draws the scene at `time` seconds into `canvas`. Called once per frame,
+  // in order, and awaited before the frame is captured.
+  renderFrame: (time: number, frame: number) => Promise<void> | void;
+  onProgress?: (framesDone: number, totalFrames: number) => void;
+  signal?: AbortSignal;
+}
+
+// Codec candidates per container, best first. H.264 level 5.1 covers 4K.
+const CODECS: Record<VideoFormat, { encoder: string; muxer: string }[]> = {
+  mp4: [
+    { encoder: 'avc1.640033', muxer: 'avc' },
+    { encoder: 'avc1.4d0033', muxer: 'avc' },
+    { encoder: 'vp09.00.51.08', muxer: 'vp9' },
+  ],
+  webm: [
+    { encoder: 'vp09.00.51.08', muxer: 'V_VP9' },
+    { encoder: 'vp8', muxer: 'V_VP8' },
+  ],
+};
+
+// Queue depth at which we stop rendering and let the encoder catch up
+const MAX_ENCODE_QUEUE = 8;
+
+export const isVideoExportSupported = () =>
+  typeof window !== 'undefined' && 'VideoEncoder' in window && 'VideoFrame' in window;
+
+const pickCodec = async (format: VideoFormat, width: number, height: number, fps: number) => {
+  for (const codec of CODECS[format]) {
+    const config: VideoEncoderConfig = {
+      codec: codec.encoder,
+      width,
+      height,
+      framerate: fps,
+      // Roughly 0.15 bits per pixel per frame: crisp enough for glitter
+      bitrate: Math.round(width * height * fps * 0.15),
+    };
+    const support = await VideoEncoder.isConfigSupported(config);
+    if (support.supported) return { config, muxerCodec: codec.muxer };
+  }
+  throw new Error(`This browser cannot encode ${format.toUpperCase()} at ${width}x${height}`);
+};
+
+const createMuxer = (format: VideoFormat, muxerCodec: string, width: number, height: number, fps: number) => {
+  if (format === 'mp4') {
+    const target = new Mp4Target();
+    const muxer = new Mp4Muxer({
+      target,
+      video: { codec: muxerCodec as 'avc' | 'vp9', width, height, frameRate: fps },
+      fastStart: 'in-memory',
+    });
+    return {
+      addChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => muxer.addVideoChunk(chunk, meta),
+      finish: () => {
+        muxer.finalize();
+        return new Blob([target.buffer], { type: 'video/mp4' });
+      },
+    };
+  }
+  const target = new WebmTarget();
+  const muxer = new WebmMuxer({
+    target,
+    video: { codec: muxerCodec, width, height, frameRate: fps },
+  });
+  return {
+    addChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => muxer.addVideoChunk(chunk, meta),
+    finish: () => {
+      muxer.finalize();
+      return new Blob([target.buffer], { type: 'video/webm' });
+    },
+  };
+};
+
+const waitForQueue = (encoder: VideoEncoder) =>
+  new Promise<void>((resolve) => {
+    if (encoder.encodeQueueSize <= MAX_ENCODE_QUEUE) return resolve();
+    const onDequeue = () => {
+      if (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) return;
+      encoder.removeEventListener('dequeue', onDequeue);
+      resolve();
+    };
+    encoder.addEventListener('dequeue', onDequeue);
+  });
+
+/**
+ * Renders `duration` seconds frame by frame at a fixed timestep and encodes
+ * them with WebCodecs. Because every frame is drawn on demand with its exact
+ * timestamp, the result does not depend on how fast the machine is or whether
+ * the tab is in the background.
+ */
+export const exportVideo = async ({
+  canvas,
+  width,
+  height,
+  fps,
+  duration,
+  format,
+  renderFrame,
+  onProgress,
+  signal,
+}: VideoExportOptions): Promise<Blob> => {
+  if (!isVideoExportSupported()) {
+    throw new Error('Video export needs WebCodecs (VideoEncoder), which this browser does not support');
+  }
+
+  const { config, muxerCodec } = await pickCodec(format, width, height, fps);
+  const muxer = createMuxer(format, muxerCodec, width, height, fps);
+
+  let encodeError: DOMException | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addChunk(chunk, meta),
+    error: (error) => {
+      encodeError = error;
+    },
+  });
+  encoder.configure(config);
+
+  const totalFrames = Math.round(duration * fps);
+  const frameDuration = 1_000_000 / fps; // microseconds
+
+  try {
+    for (let frame = 0; frame < totalFrames; frame++) {
+      signal?.throwIfAborted();
+      if (encodeError) throw encodeError;
+
+      await renderFrame(frame / fps, frame);
+
+      const videoFrame = new VideoFrame(canvas, {
+        timestamp: Math.round(frame * frameDuration),
+        duration: Math.round(frameDuration),
+      });
+      // A keyframe every two seconds keeps the file seekable
+      encoder.encode(videoFrame, { keyFrame: frame % (fps * 2) === 0 });
+      videoFrame.close();
+
+      onProgress?.(frame + 1, totalFrames);
+      await waitForQueue(encoder);
+    }
+
+    await encoder.flush();
+    if (encodeError) throw encodeError;
+    return muxer.finish();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
@@ -4,6 +4,9 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // `vite build --mode lib`: the <arix-tree> element (embed/) as one ES
+    // module with React and three bundled in
+    const lib = mode === 'lib';
     return {
       server: {
         port: 3000,
@@ -12,8 +15,20 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Library builds leave process.env alone, but nothing defines it in a browser
+        ...(lib && { 'process.env.NODE_ENV': JSON.stringify('production') }),
       },
+      build: lib
+        ? {
+            outDir: 'dist-lib',
+            lib: {
+              entry: path.resolve(__dirname, 'embed/index.ts'),
+              formats: ['es'],
+              fileName: () => 'arix-tree.js',
+            },
+          }
+        : undefined,
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),